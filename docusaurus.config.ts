@@ -1,6 +1,22 @@
 import { themes as prismThemes } from 'prism-react-renderer';
 import type { Config } from '@docusaurus/types';
 import type * as Preset from '@docusaurus/preset-classic';
+import type { Options as DocsOptions } from '@docusaurus/plugin-content-docs';
+import remarkPythonSnippets, { type PythonSnippetsOptions } from './plugins/remark-python-snippets';
+import remarkCodeAnnotations, { type CodeAnnotationsOptions } from './plugins/remark-code-annotations';
+import apiReferencePlugin, { type ApiReferencePluginOptions } from './plugins/api-reference';
+import searchIndexPlugin from './plugins/search-index';
+import llmsTxtPlugin from './plugins/llms-txt';
+import seoPlugin from './plugins/seo';
+import ogImagesPlugin from './plugins/og-images';
+import redirectsPlugin from './plugins/redirects';
+import docsChecksPlugin from './plugins/docs-checks';
+import translationStatusPlugin from './plugins/translation-status';
+import exampleSourcesPlugin, { type ExampleSourcesPluginOptions } from './plugins/example-sources';
+import pyodideRuntimePlugin, { type PyodideRuntimePluginOptions } from './plugins/pyodide-runtime';
+import { ACTIVE_PRODUCTS, PRODUCTS, productLabel } from './src/data/products';
+import { RELEASE_NOTES_ROUTE } from './src/data/releases';
+import { MAGIC_COMMENTS } from './src/utils/codeAnnotations';
 
 const config: Config = {
   title: 'Dhenara Documentation',
@@ -21,18 +37,50 @@ const config: Config = {
   onBrokenLinks: 'throw',
   onBrokenMarkdownLinks: 'warn',
 
+  // Translations live under `i18n/<locale>/`; `npm run write-translations -- --locale <locale>` adds new strings there.
+  // Docs without a translation are served in English, with a notice (`src/theme/DocItem/Content`).
   i18n: {
     defaultLocale: 'en',
-    locales: ['en'],
+    locales: ['en', 'hi', 'ja'],
+    localeConfigs: {
+      en: { label: 'English', htmlLang: 'en-US' },
+      hi: { label: 'हिन्दी', htmlLang: 'hi-IN' },
+      ja: { label: '日本語', htmlLang: 'ja-JP' },
+    },
   },
 
   presets: [
     [
       'classic',
       {
+        // Dhenara AI docs. Released versions are snapshotted with `npm run docusaurus docs:version <version>`;
+        // `docs/dhenara-ai` itself is the unreleased "next" channel.
         docs: {
-          routeBasePath: '/', // Serve the docs at the site's root
+          path: 'docs/dhenara-ai',
+          routeBasePath: 'dhenara-ai',
           sidebarPath: './sidebars.ts',
+          remarkPlugins: [
+            [
+              remarkPythonSnippets,
+              {
+                // Per docs version; 1.0 is still the latest release, so the current manifest is its manifest.
+                manifests: { current: 'api/dhenara-ai-symbols.json', '1.0': 'api/dhenara-ai-symbols.json' },
+                packages: ['dhenara.ai'],
+                onInvalidSnippet: 'throw',
+              } satisfies PythonSnippetsOptions,
+            ],
+            // After the snippet check, which reads the code as written.
+            [remarkCodeAnnotations, { onInvalidAnnotation: 'throw' } satisfies CodeAnnotationsOptions],
+          ],
+          lastVersion: '1.0',
+          versions: {
+            current: {
+              label: 'Next (unreleased)',
+              path: 'next',
+              banner: 'unreleased',
+              noIndex: true,
+            },
+          },
           // Remove editUrl if you don't want the "Edit this page" links
           // editUrl: 'https://github.com/dhenara/dhenara-docs/tree/main/',
         },
@@ -43,14 +91,97 @@ const config: Config = {
         sitemap: {
           changefreq: 'weekly',
           priority: 0.5,
-          // Keep deprecated docs accessible, but don't promote them via the sitemap.
-          ignorePatterns: ['/tags/**', '/private/**', '/dhenara-agent/**'],
+          // Pages with `noindex: true` frontmatter get a robots meta tag and are left out automatically.
+          ignorePatterns: ['/tags/**', '/private/**'],
           filename: 'sitemap.xml',
         },
       } satisfies Preset.Options,
     ],
   ],
 
+  plugins: [
+    [
+      '@docusaurus/plugin-content-docs',
+      {
+        // Agent DSL docs are deprecated and frozen at their final release: never run `docs:version` for this instance.
+        id: 'dhenara-agent',
+        path: 'docs/dhenara-agent',
+        routeBasePath: 'dhenara-agent',
+        sidebarPath: './sidebarsAgent.ts',
+        // Syntax only: the Agent DSL package has no symbol manifest.
+        remarkPlugins: [
+          [remarkPythonSnippets, { packages: [], onInvalidSnippet: 'throw' } satisfies PythonSnippetsOptions],
+        ],
+        versions: {
+          current: {
+            label: 'Final',
+          },
+        },
+      } satisfies DocsOptions,
+    ],
+    [
+      apiReferencePlugin,
+      {
+        // One target per docs version that has a reference; pages are generated, not committed. 1.0 is still the
+        // latest release, so the current dump is its dump.
+        targets: [
+          { dump: 'api/dhenara-ai.json', outputDir: 'docs/dhenara-ai/api-reference' },
+          { dump: 'api/dhenara-ai.json', outputDir: 'versioned_docs/version-1.0/api-reference', version: '1.0' },
+        ],
+        pages: [
+          {
+            id: 'aimodelclient',
+            title: 'AIModelClient',
+            description: 'The client that sends generation calls to a model endpoint.',
+            modules: ['dhenara.ai'],
+          },
+          {
+            id: 'configuration',
+            title: 'Configuration',
+            description: 'Credentials, resource configuration and per-call settings.',
+            modules: ['dhenara.ai.types.resource', 'dhenara.ai.types.genai.dhenara.request'],
+          },
+          {
+            id: 'providers',
+            title: 'Providers & Models',
+            description: 'API providers, foundation models and the endpoints that connect them.',
+            modules: ['dhenara.ai.types.genai.ai_model'],
+          },
+          {
+            id: 'types-system',
+            title: 'Response Types',
+            description: 'The normalized response types returned for every provider.',
+            modules: ['dhenara.ai.types.genai.dhenara.response'],
+          },
+        ],
+      } satisfies ApiReferencePluginOptions,
+    ],
+    // Offline search: the index is built from the docs at build time, served by `src/theme/SearchBar` and `/search`.
+    searchIndexPlugin,
+    // `llms.txt`, `llms-full.txt` and a `.md` export of every page, for AI assistants.
+    llmsTxtPlugin,
+    // Warns about Dhenara AI pages without a front matter description.
+    seoPlugin,
+    // A social card for every doc page, used as its `og:image`.
+    ogImagesPlugin,
+    // Redirect pages for the retired routes in `src/data/redirects.ts`.
+    redirectsPlugin,
+    // Fails the build on docs missing from the sidebars and on invalid front matter.
+    docsChecksPlugin,
+    // Data of the `/translation-status` page.
+    translationStatusPlugin,
+    // Sources of the runnable examples, shown by the examples gallery.
+    [exampleSourcesPlugin, { examplesDir: 'packages/dhenara_ai/examples' } satisfies ExampleSourcesPluginOptions],
+    // Self-hosted Pyodide for the ```python runnable code blocks.
+    [
+      pyodideRuntimePlugin,
+      {
+        wheelsDir: 'pyodide-wheels',
+        packages: ['pydantic', 'pyyaml'],
+      } satisfies PyodideRuntimePluginOptions,
+    ],
+  ],
+
   themeConfig: {
     // Replace with your project's social card
     image: 'img/dhenara-social-card.jpg',
@@ -62,18 +193,13 @@ const config: Config = {
         height: 25,
       },
       items: [
-        {
+        ...PRODUCTS.map((product) => ({
           type: 'docSidebar',
-          sidebarId: 'dhenaraAiSidebar',
-          position: 'left',
-          label: 'Dhenara AI',
-        },
-        {
-          type: 'docSidebar',
-          sidebarId: 'dhenaraAgentSidebar',
-          position: 'left',
-          label: 'Agent DSL (Deprecated)',
-        },
+          sidebarId: product.sidebarId,
+          docsPluginId: product.docsPluginId,
+          position: 'left' as const,
+          label: productLabel(product),
+        })),
         //{
         //  type: 'dropdown',
         //  label: 'Packages',
@@ -89,6 +215,14 @@ const config: Config = {
         //    },
         //  ],
         //},
+        {
+          type: 'docsVersionDropdown',
+          position: 'right',
+        },
+        {
+          type: 'localeDropdown',
+          position: 'right',
+        },
         {
           href: 'https://dhenara.com',
           label: 'dhenara.com',
@@ -127,22 +261,22 @@ const config: Config = {
         {
           title: 'Docs',
           items: [
-            {
-              label: 'Dhenara AI',
-              to: '/dhenara-ai/introduction',
-            },
-            {
-              label: 'Agent DSL (Deprecated)',
-              to: '/dhenara-agent/introduction',
-            },
+            ...PRODUCTS.map((product) => ({
+              label: productLabel(product),
+              to: product.routes.introduction,
+            })),
             //{
             //  label: 'Guides',
             //  to: '/guides/basic-usage',
             //},
-            //{
-            //  label: 'API Reference',
-            //  to: '/api-reference/aimodelclient',
-            //},
+            ...ACTIVE_PRODUCTS.filter(({ routes }) => routes.apiReference).map((product) => ({
+              label: ACTIVE_PRODUCTS.length > 1 ? `${product.name} API Reference` : 'API Reference',
+              to: product.routes.apiReference,
+            })),
+            {
+              label: 'Release Notes',
+              to: RELEASE_NOTES_ROUTE,
+            },
           ],
         },
         {
@@ -173,35 +307,9 @@ const config: Config = {
     prism: {
       theme: prismThemes.vsLight,
       darkTheme: prismThemes.vsDark, // palenight, vsDark, dracula,
-      additionalLanguages: ['python'],
-    },
-    algolia: {
-      // The application ID provided by Algolia
-      appId: '67YW3S51WJ',
-
-      // Public API key: it is safe to commit it
-      apiKey: '1ccbf78367f0728cdd06faa8b84c8ba4',
-
-      indexName: 'dhenara',
-
-      // Optional: see doc section below
-      contextualSearch: true,
-
-      // Optional: Specify domains where the navigation should occur through window.location instead on history.push. Useful when our Algolia config crawls multiple documentation sites and we want to navigate with window.location.href to them.
-      //externalUrlRegex: 'external\\.com|dhenara\\.com',
-
-      // Optional: Replace parts of the item URLs from Algolia. Useful when using the same search index for multiple deployments using a different baseUrl. You can use regexp or string in the `from` param. For example: localhost:3000 vs myCompany.com/docs
-      replaceSearchResultPathname: {
-        from: '/docs/', // or as RegExp: /\/docs\//
-        to: '/',
-      },
-
-      // Optional: Algolia search parameters
-      searchParameters: {},
-      // Optional: path for search page that enabled by default (`false` to disable it)
-      searchPagePath: 'search',
-      // Optional: whether the insights feature is enabled or not on Docsearch (`false` by default)
-      insights: false,
+      // `dotenv` is defined in `src/theme/prism-include-languages.ts`.
+      additionalLanguages: ['python', 'bash', 'toml'],
+      magicComments: MAGIC_COMMENTS,
     },
   } satisfies Preset.ThemeConfig,
 };
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import { renderPage, type ApiReferencePage } from './render';
+import type { ApiDump } from './types';
+
+export type { ApiReferencePage } from './render';
+
+export type ApiReferenceTarget = {
+  /** API dump to render, relative to the site directory. */
+  dump: string;
+  /** Docs directory the pages are generated into, relative to the site directory. */
+  outputDir: string;
+  /** Release of the package a frozen docs version documents; the dump must be of that release. */
+  version?: string;
+};
+
+export type ApiReferencePluginOptions = {
+  targets: ApiReferenceTarget[];
+  pages: ApiReferencePage[];
+};
+
+function generatePages(siteDir: string, { dump, outputDir, version }: ApiReferenceTarget, pages: ApiReferencePage[]) {
+  const apiDump = JSON.parse(fs.readFileSync(path.join(siteDir, dump), 'utf8')) as ApiDump;
+  if (version !== undefined && apiDump.version !== version) {
+    throw new Error(
+      `API reference target "${outputDir}" documents ${apiDump.package} ${version}, but "${dump}" is the dump of ` +
+        `${apiDump.version}. Give the version the dump of its release.`
+    );
+  }
+  const outputPath = path.join(siteDir, outputDir);
+
+  fs.rmSync(outputPath, { recursive: true, force: true });
+  fs.mkdirSync(outputPath, { recursive: true });
+  pages.forEach((page, idx) => {
+    fs.writeFileSync(path.join(outputPath, `${page.id}.md`), renderPage(page, apiDump, idx + 1));
+  });
+}
+
+/**
+ * Generates the Python API reference from the checked-in API dumps.
+ *
+ * Pages are written into the docs directories when the plugin is initialized, before the docs plugin reads them, and
+ * are picked up by the `autogenerated` "API Reference" sidebar category. They are build output and are not committed.
+ */
+export default function apiReferencePlugin(context: LoadContext, options: ApiReferencePluginOptions): Plugin {
+  for (const target of options.targets) {
+    generatePages(context.siteDir, target, options.pages);
+  }
+
+  return {
+    name: 'dhenara-api-reference',
+
+    getPathsToWatch() {
+      return options.targets.map(({ dump }) => path.join(context.siteDir, dump));
+    },
+  };
+}
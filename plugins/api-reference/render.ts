@@ -0,0 +1,134 @@
+import type { ApiClass, ApiDump, ApiField, ApiFunction, ApiModule } from './types';
+
+export type ApiReferencePage = {
+  /** File name (without extension) and doc ID suffix of the generated page. */
+  id: string;
+  title: string;
+  description: string;
+  /** Python modules whose public symbols are documented on this page. */
+  modules: string[];
+};
+
+/**
+ * Anchor of a symbol, derived only from its name within its module (`AIModelClient.generate` →
+ * `aimodelclient-generate`), so links keep working when pages are regrouped.
+ */
+export function symbolAnchor(qualifiedName: string): string {
+  return qualifiedName.toLowerCase().replace(/[^a-z0-9_]+/g, '-');
+}
+
+// Docstrings are prose, but MDX would otherwise treat `{` and `<` as JSX. Inline code is left alone.
+function escapeMdx(text: string): string {
+  return text
+    .split('`')
+    .map((part, idx) => (idx % 2 === 0 ? part.replace(/([{}<>])/g, '\\$1') : part))
+    .join('`');
+}
+
+function escapeTableCell(text: string): string {
+  return escapeMdx(text).replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+}
+
+// MDX leaves code spans alone, so only the table syntax needs escaping there.
+function tableCodeSpan(code: string): string {
+  return `\`${code.replace(/\|/g, '\\|').replace(/\n+/g, ' ')}\``;
+}
+
+function heading(level: number, text: string, anchor: string): string {
+  return `${'#'.repeat(level)} ${text} {#${anchor}}`;
+}
+
+// Signatures have no body, so they are flagged `partial` to skip the snippet syntax check.
+function codeBlock(code: string): string {
+  return ['```python partial', code, '```'].join('\n');
+}
+
+function renderFields(owner: string, fields: ApiField[]): string {
+  const rows = fields.map(({ name, type, default: defaultValue, description }) => {
+    const anchor = symbolAnchor(`${owner}.${name}`);
+    return `| <a id="${anchor}"></a>\`${name}\` | ${tableCodeSpan(type)} | ${
+      defaultValue ? tableCodeSpan(defaultValue) : 'required'
+    } | ${escapeTableCell(description ?? '')} |`;
+  });
+  return ['| Field | Type | Default | Description |', '| --- | --- | --- | --- |', ...rows].join('\n');
+}
+
+function renderFunction(fn: ApiFunction, owner: string | null, level: number): string {
+  const qualifiedName = owner ? `${owner}.${fn.name}` : fn.name;
+  const decorators = [fn.kind === 'classmethod' && '@classmethod', fn.kind === 'staticmethod' && '@staticmethod'];
+  const signature = `${fn.async ? 'async ' : ''}def ${fn.signature}`;
+  return [
+    heading(level, `\`${qualifiedName}()\``, symbolAnchor(qualifiedName)),
+    codeBlock([...decorators.filter(Boolean), signature].join('\n')),
+    fn.docstring ? escapeMdx(fn.docstring) : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function renderClass(cls: ApiClass, module: ApiModule): string {
+  const parts = [heading(2, `\`${cls.name}\``, symbolAnchor(cls.name))];
+  parts.push(codeBlock(`from ${module.name} import ${cls.name}`));
+  if (cls.signature) {
+    parts.push(codeBlock(cls.signature));
+  }
+  if (cls.bases?.length) {
+    parts.push(`Bases: ${cls.bases.map((base) => `\`${base}\``).join(', ')}`);
+  }
+  if (cls.docstring) {
+    parts.push(escapeMdx(cls.docstring));
+  }
+  if (cls.members?.length) {
+    parts.push(
+      [
+        '| Member | Value |',
+        '| --- | --- |',
+        ...cls.members.map(({ name, value }) => `| \`${name}\` | ${tableCodeSpan(value)} |`),
+      ].join('\n')
+    );
+  }
+  if (cls.fields?.length) {
+    parts.push(renderFields(cls.name, cls.fields));
+  }
+  for (const method of cls.methods ?? []) {
+    parts.push(renderFunction(method, cls.name, 3));
+  }
+  return parts.join('\n\n');
+}
+
+/** Renders one reference page as Markdown, with an explicit, stable heading ID for every symbol. */
+export function renderPage(page: ApiReferencePage, dump: ApiDump, position: number): string {
+  const modules = page.modules.map((name) => {
+    const module = dump.modules.find((candidate) => candidate.name === name);
+    if (!module) {
+      throw new Error(
+        `API reference page "${page.id}" lists module "${name}", which is not in the ${dump.package} dump.`
+      );
+    }
+    return module;
+  });
+
+  const body = modules.flatMap((module) => [
+    `Module \`${module.name}\`${module.docstring ? `: ${escapeMdx(module.docstring)}` : ''}`,
+    ...(module.classes ?? []).map((cls) => renderClass(cls, module)),
+    ...(module.functions ?? []).map((fn) => renderFunction(fn, null, 2)),
+  ]);
+
+  return [
+    '---',
+    `title: ${JSON.stringify(page.title)}`,
+    `description: ${JSON.stringify(page.description)}`,
+    `sidebar_position: ${position}`,
+    'custom_edit_url: null',
+    '---',
+    '',
+    `{/* Generated from the ${dump.package} ${dump.version} API dump by plugins/api-reference. Do not edit. */}`,
+    '',
+    `# ${page.title}`,
+    '',
+    escapeMdx(page.description),
+    '',
+    body.join('\n\n'),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,45 @@
+// Shape of the public-API dump checked in under `api/`, as produced by introspecting the Python package.
+
+export type ApiField = {
+  name: string;
+  type: string;
+  default?: string;
+  description?: string;
+};
+
+export type ApiEnumMember = {
+  name: string;
+  value: string;
+};
+
+export type ApiFunction = {
+  name: string;
+  kind?: 'function' | 'method' | 'classmethod' | 'staticmethod' | 'property';
+  async?: boolean;
+  signature: string;
+  docstring?: string;
+};
+
+export type ApiClass = {
+  name: string;
+  kind: 'class' | 'enum';
+  bases?: string[];
+  signature?: string;
+  docstring?: string;
+  fields?: ApiField[];
+  members?: ApiEnumMember[];
+  methods?: ApiFunction[];
+};
+
+export type ApiModule = {
+  name: string;
+  docstring?: string;
+  classes?: ApiClass[];
+  functions?: ApiFunction[];
+};
+
+export type ApiDump = {
+  package: string;
+  version: string;
+  modules: ApiModule[];
+};
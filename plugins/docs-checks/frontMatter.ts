@@ -0,0 +1,67 @@
+import {
+  ContentVisibilitySchema,
+  FrontMatterLastUpdateSchema,
+  FrontMatterTagsSchema,
+  FrontMatterTOCHeadingLevels,
+  Joi,
+  JoiFrontMatter,
+  URISchema,
+} from '@docusaurus/utils-validation';
+import type { DocFrontMatter as DocusaurusDocFrontMatter } from '@docusaurus/plugin-content-docs';
+import type { DeprecationFrontMatter } from '../../src/utils/deprecation';
+import type { VersionFrontMatter } from '../../src/utils/versionBadges';
+
+/** Front matter of a doc page: the Docusaurus fields (`title`, `description`, `sidebar_label`...) and ours. */
+export type DocFrontMatter = DocusaurusDocFrontMatter & DeprecationFrontMatter & VersionFrontMatter;
+
+// The docs plugin doesn't export its schema: these are its fields, as of Docusaurus 3.7.
+const DocusaurusDocFrontMatterKeys = {
+  id: JoiFrontMatter.string(),
+  title: JoiFrontMatter.string().allow(''),
+  hide_title: JoiFrontMatter.boolean(),
+  hide_table_of_contents: JoiFrontMatter.boolean(),
+  keywords: JoiFrontMatter.array().items(JoiFrontMatter.string().required()),
+  image: URISchema,
+  description: JoiFrontMatter.string().allow(''),
+  slug: JoiFrontMatter.string(),
+  sidebar_label: JoiFrontMatter.string(),
+  sidebar_position: JoiFrontMatter.number(),
+  sidebar_class_name: JoiFrontMatter.string(),
+  sidebar_custom_props: JoiFrontMatter.object().unknown(),
+  displayed_sidebar: JoiFrontMatter.string().allow(null),
+  tags: FrontMatterTagsSchema,
+  pagination_label: JoiFrontMatter.string(),
+  custom_edit_url: URISchema.allow('', null),
+  parse_number_prefixes: JoiFrontMatter.boolean(),
+  pagination_next: JoiFrontMatter.string().allow(null),
+  pagination_prev: JoiFrontMatter.string().allow(null),
+  ...FrontMatterTOCHeadingLevels,
+  last_update: FrontMatterLastUpdateSchema,
+};
+
+/**
+ * Unlike the docs plugin's own schema, unknown fields are rejected, so a misspelt `deprecated` or `sidebar_label`
+ * fails instead of being ignored.
+ */
+export const DocFrontMatterStrictSchema = JoiFrontMatter.object<DocFrontMatter>({
+  ...DocusaurusDocFrontMatterKeys,
+  deprecated: Joi.alternatives(Joi.boolean(), Joi.string().trim().min(1)),
+  deprecated_since: Joi.alternatives(Joi.string(), Joi.number()),
+  replacement: Joi.string(),
+  replacement_title: Joi.string(),
+  noindex: Joi.boolean(),
+  // Strings only: unquoted, `1.0` would be read as the number 1.
+  added_in: Joi.string(),
+  changed_in: Joi.string(),
+})
+  .concat(ContentVisibilitySchema)
+  .unknown(false)
+  .with('deprecated_since', 'deprecated')
+  .with('replacement', 'deprecated')
+  .with('replacement_title', 'replacement');
+
+/** Returns the schema violations of a page's front matter, one message each. */
+export function frontMatterViolations(frontMatter: Record<string, unknown>): string[] {
+  const { error } = DocFrontMatterStrictSchema.validate(frontMatter, { abortEarly: false });
+  return error?.details.map(({ message }) => message) ?? [];
+}
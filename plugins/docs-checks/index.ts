@@ -0,0 +1,122 @@
+import logger from '@docusaurus/logger';
+import { aliasedSitePathToRelativePath } from '@docusaurus/utils';
+import type { LoadContext, Plugin, ReportingSeverity } from '@docusaurus/types';
+import type { DocMetadata, LoadedContent, LoadedVersion } from '@docusaurus/plugin-content-docs';
+import { PRODUCTS } from '../../src/data/products';
+import { RELEASES, RELEASE_NOTES_PRODUCT, findRelease, releaseDocsVersion } from '../../src/data/releases';
+import { isReplacementPath, type DeprecationFrontMatter } from '../../src/utils/deprecation';
+import type { VersionFrontMatter } from '../../src/utils/versionBadges';
+import { frontMatterViolations } from './frontMatter';
+
+export type DocsChecksPluginOptions = {
+  /** What to do when a check fails; `throw` fails the build. Defaults to `throw`. */
+  onViolation?: ReportingSeverity;
+};
+
+type SidebarItem = LoadedVersion['sidebars'][string][number];
+
+// Every doc placement of a sidebar: doc items and category index pages. `ref` items only link to a doc placed elsewhere.
+function placedDocIds(items: SidebarItem[]): string[] {
+  return items.flatMap((item) => {
+    if (item.type === 'doc') {
+      return [item.id];
+    }
+    if (item.type === 'category') {
+      return [...(item.link?.type === 'doc' ? [item.link.id] : []), ...placedDocIds(item.items)];
+    }
+    return [];
+  });
+}
+
+function versionViolations(pluginId: string, version: LoadedVersion): string[] {
+  const product = PRODUCTS.find(({ docsPluginId }) => (docsPluginId ?? 'default') === pluginId);
+  const label = `${product?.name ?? pluginId} ${version.label}`;
+  const docIds = new Set(version.docs.map(({ id }) => id));
+  const violations: string[] = [];
+  const fileOf = (doc: DocMetadata) => aliasedSitePathToRelativePath(doc.source);
+
+  const placements = new Map<string, string[]>();
+  for (const [sidebarId, items] of Object.entries(version.sidebars)) {
+    for (const id of placedDocIds(items)) {
+      placements.set(id, [...(placements.get(id) ?? []), sidebarId]);
+    }
+  }
+  for (const [id, sidebars] of placements) {
+    if (sidebars.length > 1) {
+      violations.push(`${label}: doc "${id}" is placed ${sidebars.length} times, in ${sidebars.join(', ')}`);
+    }
+  }
+
+  for (const doc of version.docs) {
+    if (!placements.has(doc.id) && !doc.unlisted) {
+      violations.push(`${label}: ${fileOf(doc)} is in no sidebar; add it to one, or mark it \`unlisted: true\``);
+    }
+    const { replacement } = doc.frontMatter as DeprecationFrontMatter;
+    if (replacement && !isReplacementPath(replacement) && !docIds.has(replacement)) {
+      violations.push(`${label}: ${fileOf(doc)} has an unknown \`replacement\` doc id "${replacement}"`);
+    }
+    for (const field of ['added_in', 'changed_in'] as const) {
+      const release = (doc.frontMatter as VersionFrontMatter)[field];
+      if (release === undefined) {
+        continue;
+      }
+      if (product?.id !== RELEASE_NOTES_PRODUCT) {
+        violations.push(
+          `${label}: ${fileOf(doc)} has \`${field}\`, but only ${RELEASE_NOTES_PRODUCT} has release notes`
+        );
+      } else if (!findRelease(String(release))) {
+        violations.push(`${label}: ${fileOf(doc)} has an unknown \`${field}\` release "${release}"`);
+      }
+    }
+    const { displayed_sidebar: displayedSidebar } = doc.frontMatter;
+    if (displayedSidebar && !(displayedSidebar in version.sidebars)) {
+      violations.push(`${label}: ${fileOf(doc)} has an unknown \`displayed_sidebar\` "${displayedSidebar}"`);
+    }
+    for (const message of frontMatterViolations(doc.frontMatter)) {
+      violations.push(`${label}: ${fileOf(doc)} front matter: ${message}`);
+    }
+  }
+  return violations;
+}
+
+// The `doc` ids of the release notes, in the docs version each release refers to (the latest one when it has none).
+function releaseNotesViolations(docsContent: Record<string, LoadedContent>): string[] {
+  const product = PRODUCTS.find(({ id }) => id === RELEASE_NOTES_PRODUCT);
+  const loadedVersions = docsContent[product?.docsPluginId ?? 'default']?.loadedVersions ?? [];
+  return RELEASES.flatMap((release) => {
+    const version =
+      loadedVersions.find(({ versionName }) => versionName === releaseDocsVersion(release)) ??
+      loadedVersions.find(({ isLast }) => isLast);
+    return release.changes
+      .filter(({ doc }) => doc && !version?.docs.some(({ id }) => id === doc))
+      .map(({ doc }) => `src/data/releases.ts: release ${release.version} links to an unknown doc id "${doc}"`);
+  });
+}
+
+/**
+ * Checks the docs of every docs plugin instance and version: each doc is placed in exactly one sidebar unless its
+ * front matter sets `unlisted: true`, the doc ids and releases (`added_in`, `changed_in`) referenced from front matter
+ * exist, and the front matter matches `DocFrontMatterStrictSchema`. Also checks the doc ids of `src/data/releases.ts`.
+ * The docs plugin itself already rejects unknown doc ids in the sidebars.
+ */
+export default function docsChecksPlugin(
+  _context: LoadContext,
+  { onViolation = 'throw' }: DocsChecksPluginOptions = {}
+): Plugin {
+  return {
+    name: 'dhenara-docs-checks',
+
+    async allContentLoaded({ allContent }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs'] as Record<string, LoadedContent> | undefined;
+      const violations = [
+        ...Object.entries(docsContent ?? {}).flatMap(([pluginId, { loadedVersions }]) =>
+          loadedVersions.flatMap((version) => versionViolations(pluginId, version))
+        ),
+        ...releaseNotesViolations(docsContent ?? {}),
+      ];
+      if (violations.length > 0) {
+        logger.report(onViolation)(`Docs checks failed:\n- ${violations.join('\n- ')}`);
+      }
+    },
+  };
+}
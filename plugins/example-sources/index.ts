@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import { RUNNABLE_EXAMPLES } from '../../src/data/examples';
+import type { ExampleSources } from './types';
+
+export type { ExampleSources } from './types';
+
+export type ExampleSourcesPluginOptions = {
+  /** Directory of the example scripts, relative to the site directory. */
+  examplesDir: string;
+};
+
+export const EXAMPLE_SOURCES_FILENAME = 'example-sources.json';
+
+/**
+ * Bundles the sources of the runnable examples in `src/data/examples.ts` with the site, so the examples gallery shows
+ * the scripts of the documented release, offline. Scripts missing from the examples directory are reported, and their
+ * cards link to GitHub instead.
+ */
+export default function exampleSourcesPlugin(context: LoadContext, options: ExampleSourcesPluginOptions): Plugin {
+  const examplesPath = path.join(context.siteDir, options.examplesDir);
+
+  return {
+    name: 'dhenara-example-sources',
+
+    getPathsToWatch() {
+      return [path.join(examplesPath, '*.py')];
+    },
+
+    async loadContent(): Promise<ExampleSources> {
+      const sources: ExampleSources = {};
+      for (const { filename } of RUNNABLE_EXAMPLES) {
+        try {
+          sources[filename] = await fs.readFile(path.join(examplesPath, filename), 'utf8');
+        } catch {
+          // Reported below, all at once.
+        }
+      }
+      const missing = RUNNABLE_EXAMPLES.map(({ filename }) => filename).filter((filename) => !(filename in sources));
+      if (missing.length > 0) {
+        logger.warn`Example sources not bundled: path=${options.examplesDir} lacks ${missing}.`;
+      }
+      return sources;
+    },
+
+    async contentLoaded({ content, actions }) {
+      await actions.createData(EXAMPLE_SOURCES_FILENAME, JSON.stringify(content));
+    },
+  };
+}
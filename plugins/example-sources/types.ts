@@ -0,0 +1,2 @@
+/** Sources of the runnable examples bundled with the site, by script filename. */
+export type ExampleSources = Record<string, string>;
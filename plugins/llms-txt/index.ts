@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { aliasedSitePathToRelativePath } from '@docusaurus/utils';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { DocMetadata, LoadedContent, LoadedVersion } from '@docusaurus/plugin-content-docs';
+import { PRODUCTS, productLabel, type Product } from '../../src/data/products';
+import { getDeprecation, type DeprecationFrontMatter } from '../../src/utils/deprecation';
+import { MARKDOWN_EXPORT_EXTENSION, markdownExportPath } from '../../src/utils/markdownExport';
+import { toCleanMarkdown } from './markdown';
+
+export const LLMS_INDEX_FILENAME = 'llms.txt';
+export const LLMS_FULL_FILENAME = 'llms-full.txt';
+
+type SidebarItem = LoadedVersion['sidebars'][string][number];
+
+type ExportedDoc = {
+  doc: DocMetadata;
+  markdown: string;
+  deprecated: boolean;
+};
+
+/** A sidebar entry of the index: a doc, or a category grouping entries. */
+type IndexEntry = { doc: ExportedDoc } | { label: string; entries: IndexEntry[] };
+
+function indexEntries(items: SidebarItem[], docs: Map<string, ExportedDoc>): IndexEntry[] {
+  return items.flatMap((item): IndexEntry[] => {
+    if (item.type === 'doc' || item.type === 'ref') {
+      const doc = docs.get(item.id);
+      return doc ? [{ doc }] : [];
+    }
+    if (item.type === 'category') {
+      const link = item.link?.type === 'doc' ? docs.get(item.link.id) : undefined;
+      return [{ label: item.label, entries: [...(link ? [{ doc: link }] : []), ...indexEntries(item.items, docs)] }];
+    }
+    return [];
+  });
+}
+
+function flattenEntries(entries: IndexEntry[]): ExportedDoc[] {
+  return entries.flatMap((entry) => ('doc' in entry ? [entry.doc] : flattenEntries(entry.entries)));
+}
+
+function markdownUrl(siteUrl: string, { doc }: ExportedDoc): string {
+  return `${siteUrl}${markdownExportPath(doc.permalink)}`;
+}
+
+function renderIndexEntries(siteUrl: string, entries: IndexEntry[], depth = 0): string[] {
+  const indent = '  '.repeat(depth);
+  return entries.flatMap((entry) => {
+    if ('label' in entry) {
+      return [`${indent}- ${entry.label}`, ...renderIndexEntries(siteUrl, entry.entries, depth + 1)];
+    }
+    const { doc } = entry.doc;
+    const title = entry.doc.deprecated ? `${doc.title} (deprecated)` : doc.title;
+    const description = doc.description ? `: ${doc.description}` : '';
+    return [`${indent}- [${title}](${markdownUrl(siteUrl, entry.doc)})${description}`];
+  });
+}
+
+/**
+ * Exports the docs for AI assistants: every page gets a Markdown version at `<permalink>.md`, and the site root gets
+ * an `llms.txt` index and an `llms-full.txt` concatenation (https://llmstxt.org) of the active products' docs in
+ * sidebar order. Deprecated products are only listed as such in the index; deprecated pages are flagged.
+ *
+ * Like the search index, only the latest released version of each product is indexed.
+ */
+export default function llmsTxtPlugin(context: LoadContext): Plugin {
+  const { siteDir, siteConfig, baseUrl } = context;
+  const siteUrl = siteConfig.url.replace(/\/$/, '');
+  const exportedDocs: ExportedDoc[] = [];
+  const productEntries = new Map<Product, IndexEntry[]>();
+
+  return {
+    name: 'dhenara-llms-txt',
+
+    async allContentLoaded({ allContent }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs'] as Record<string, LoadedContent> | undefined;
+      exportedDocs.length = 0;
+      productEntries.clear();
+
+      for (const [pluginId, { loadedVersions }] of Object.entries(docsContent ?? {})) {
+        for (const version of loadedVersions) {
+          const docs = new Map<string, ExportedDoc>();
+          for (const doc of version.docs) {
+            const source = await fs.readFile(path.join(siteDir, aliasedSitePathToRelativePath(doc.source)), 'utf8');
+            const deprecation = getDeprecation(doc.frontMatter as DeprecationFrontMatter);
+            const exported = { doc, markdown: toCleanMarkdown(source, doc.title), deprecated: deprecation !== null };
+            docs.set(doc.id, exported);
+            exportedDocs.push(exported);
+          }
+
+          const product = PRODUCTS.find(({ docsPluginId }) => (docsPluginId ?? 'default') === pluginId);
+          if (product && version.isLast) {
+            productEntries.set(product, indexEntries(version.sidebars[product.sidebarId] ?? [], docs));
+          }
+        }
+      }
+    },
+
+    async postBuild({ outDir }) {
+      for (const { doc, markdown } of exportedDocs) {
+        const filePath = path.join(outDir, markdownExportPath(doc.permalink).slice(baseUrl.length));
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, markdown);
+      }
+
+      const index = [`# ${siteConfig.title}`, '', `> ${siteConfig.tagline}`, ''];
+      index.push(
+        `Every page is also available as Markdown at its URL plus \`${MARKDOWN_EXPORT_EXTENSION}\`; ` +
+          `[${LLMS_FULL_FILENAME}](${siteUrl}${baseUrl}${LLMS_FULL_FILENAME}) holds all of the pages below in one file.`
+      );
+      const full: string[] = [];
+
+      for (const product of PRODUCTS) {
+        const introduction = `${siteUrl}${baseUrl}${markdownExportPath(product.routes.introduction.slice(1))}`;
+        index.push('', `## ${productLabel(product)}`, '');
+        if (product.status === 'deprecated') {
+          index.push(
+            `${product.name} is deprecated and not covered here; do not use it for new code. ` +
+              `Its archived docs start at [${product.name} introduction](${introduction}).`
+          );
+          continue;
+        }
+        const entries = productEntries.get(product) ?? [];
+        index.push(...renderIndexEntries(siteUrl, entries));
+        for (const { doc, markdown, deprecated } of flattenEntries(entries)) {
+          const note = deprecated ? ' (deprecated; do not use it for new code)' : '';
+          full.push(`Source: ${siteUrl}${doc.permalink.replace(/\/$/, '')}${note}\n\n${markdown}`);
+        }
+      }
+
+      await fs.writeFile(path.join(outDir, LLMS_INDEX_FILENAME), `${index.join('\n')}\n`);
+      await fs.writeFile(path.join(outDir, LLMS_FULL_FILENAME), full.join('\n---\n\n'));
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { RUNNABLE_EXAMPLES, type ExampleTag } from '../../src/data/examples';
+import { MODEL_PROVIDERS, type ModelProvider } from '../../src/data/foundationModels';
+import { SEQUENCE_DIAGRAMS, type SequenceDiagramId } from '../../src/data/sequenceDiagrams';
+import { sequenceDiagramMarkdown } from '../../src/utils/sequenceDiagram';
+
+const FRONT_MATTER = /^---\n[\s\S]*?\n---\n/;
+const FENCE = /^\s*(```|~~~)/;
+const MDX_COMMENT = /\{\/\*[\s\S]*?\*\/\}/g;
+const ESM_LINE = /^(import|export)\s/;
+// A line holding nothing but JSX tags, e.g. `<ProviderTab provider="openai">` or `</div>`.
+const JSX_ONLY_LINE = /^\s*(<\/?[A-Za-z][\w.]*(\s[^<>]*)?\/?>\s*)+$/;
+const H1 = /^#\s/;
+const PROVIDER_TAB = /^\s*<ProviderTab\s+provider="(\w+)"\s*>\s*$/;
+const EXAMPLES_GALLERY = /^\s*<ExamplesGallery(?:\s+tags=\{\[([^\]]*)\]\})?\s*\/>\s*$/;
+const SEQUENCE_DIAGRAM = /^\s*<SequenceDiagram\s+diagram="([\w-]+)"\s*\/>\s*$/;
+// A heading's `<VersionBadge addedIn="1.1" changedIn="1.2" />`.
+const VERSION_BADGE = /\s*<VersionBadge((?:\s+\w+="[^"]*")*)\s*\/>/g;
+const VERSION_BADGE_LABELS: Record<string, string> = { addedIn: 'new in', changedIn: 'changed in' };
+
+function versionBadgeText(attributes: string): string {
+  const labels = [...attributes.matchAll(/(\w+)="([^"]*)"/g)].map(
+    ([, name, version]) => `${VERSION_BADGE_LABELS[name] ?? name} ${version}`
+  );
+  return ` (${labels.join(', ')})`;
+}
+
+function examplesList(tagList = ''): string {
+  const tags = tagList.match(/[\w-]+/g) ?? [];
+  return RUNNABLE_EXAMPLES.filter((example) => tags.every((tag) => example.tags.includes(tag as ExampleTag)))
+    .map(({ filename, source, description }) => `- [${filename}](${source}): ${description}`)
+    .join('\n');
+}
+
+/**
+ * Reduces a doc's Markdown/MDX source to plain Markdown: front matter, MDX imports and comments, and lines holding only
+ * JSX tags are removed, while code blocks are kept verbatim. Provider tabs become a bold provider name before their
+ * variant, examples galleries a list of their examples, sequence diagrams their text version, and version badges
+ * text (`(new in 1.1)`). The page title becomes the h1 when the source has none.
+ */
+export function toCleanMarkdown(source: string, title: string): string {
+  const lines: string[] = [];
+  let inFence = false;
+  let hasTitle = false;
+
+  for (const line of source.replace(FRONT_MATTER, '').replace(MDX_COMMENT, '').split('\n')) {
+    const providerTab = inFence ? null : PROVIDER_TAB.exec(line);
+    const examplesGallery = inFence ? null : EXAMPLES_GALLERY.exec(line);
+    const sequenceDiagram = inFence ? null : SEQUENCE_DIAGRAM.exec(line);
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+    } else if (providerTab) {
+      lines.push(`**${MODEL_PROVIDERS[providerTab[1] as ModelProvider]}**`);
+      continue;
+    } else if (examplesGallery) {
+      lines.push(examplesList(examplesGallery[1]));
+      continue;
+    } else if (sequenceDiagram) {
+      const diagram = SEQUENCE_DIAGRAMS[sequenceDiagram[1] as SequenceDiagramId];
+      lines.push(`${diagram.title}:`, '', sequenceDiagramMarkdown(diagram));
+      continue;
+    } else if (!inFence && (ESM_LINE.test(line) || JSX_ONLY_LINE.test(line))) {
+      continue;
+    } else if (!inFence && H1.test(line)) {
+      hasTitle = true;
+    }
+    lines.push(inFence ? line : line.replace(VERSION_BADGE, (_, attributes: string) => versionBadgeText(attributes)));
+  }
+
+  const markdown = lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return `${hasTitle ? markdown : `# ${title}\n\n${markdown}`}\n`;
+}
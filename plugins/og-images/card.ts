@@ -0,0 +1,87 @@
+import { createElement as h, type CSSProperties, type ReactNode } from 'react';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from '../../src/utils/ogImage';
+
+export type CardContent = {
+  title: string;
+  /** Product name, e.g. "Dhenara AI". */
+  product: string;
+  /** Top-level sidebar category of the page, if any. */
+  section?: string;
+  deprecated: boolean;
+  siteTitle: string;
+  siteHost: string;
+  /** `data:` URL of the logo. */
+  logo: string;
+};
+
+// Colors of the site's dark theme (`src/css/custom.css` and Infima).
+const BACKGROUND = '#1b1b1d';
+const PRIMARY = '#f2c24a';
+const TEXT = '#e3e3e3';
+const MUTED = '#a0a0a8';
+const DANGER = '#e13238';
+
+function div(style: CSSProperties, ...children: ReactNode[]): ReactNode {
+  return h('div', { style: { display: 'flex', ...style } }, ...children);
+}
+
+// Long titles step down in size so that they fit in three lines.
+function titleFontSize(title: string): number {
+  return title.length > 60 ? 56 : title.length > 32 ? 68 : 80;
+}
+
+function ribbon(): ReactNode {
+  return div(
+    {
+      position: 'absolute',
+      top: 80,
+      right: -70,
+      width: 380,
+      justifyContent: 'center',
+      padding: '12px 0',
+      backgroundColor: DANGER,
+      color: '#ffffff',
+      fontSize: 28,
+      fontWeight: 700,
+      letterSpacing: 1,
+      textTransform: 'uppercase',
+      transform: 'rotate(45deg)',
+    },
+    'Deprecated'
+  );
+}
+
+/** The social card of a doc page, as a satori element tree (satori only supports flex layout). */
+export function ogCard({ title, product, section, deprecated, siteTitle, siteHost, logo }: CardContent): ReactNode {
+  return div(
+    {
+      position: 'relative',
+      width: OG_IMAGE_WIDTH,
+      height: OG_IMAGE_HEIGHT,
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 80px',
+      backgroundColor: BACKGROUND,
+      borderTop: `12px solid ${PRIMARY}`,
+      fontFamily: 'Inter',
+      color: TEXT,
+      overflow: 'hidden',
+    },
+    div(
+      { alignItems: 'center', gap: 24 },
+      h('img', { src: logo, width: 72, height: 72 }),
+      div({ fontSize: 36, fontWeight: 700 }, siteTitle)
+    ),
+    div(
+      { flexDirection: 'column', gap: 20 },
+      section ? div({ color: PRIMARY, fontSize: 30, fontWeight: 700, textTransform: 'uppercase' }, section) : null,
+      div({ fontSize: titleFontSize(title), fontWeight: 700, lineHeight: 1.15, maxWidth: 1000 }, title)
+    ),
+    div(
+      { justifyContent: 'space-between', alignItems: 'center', fontSize: 30, color: MUTED },
+      div({ color: deprecated ? MUTED : TEXT, fontWeight: 700 }, product),
+      div({}, siteHost)
+    ),
+    deprecated ? ribbon() : null
+  );
+}
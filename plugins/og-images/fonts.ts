@@ -0,0 +1,134 @@
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+
+// Font families of the cards, by priority: a character is drawn with the first family that has it, so Hindi and
+// Japanese titles get the Noto fonts.
+const FONT_FAMILIES = [
+  { name: 'Inter', package: '@fontsource/inter' },
+  { name: 'Noto Sans Devanagari', package: '@fontsource/noto-sans-devanagari' },
+  { name: 'Noto Sans JP', package: '@fontsource/noto-sans-jp' },
+] as const;
+
+const FONT_WEIGHTS = [400, 700] as const;
+
+// A Fontsource family is split in subsets by unicode range (`latin`, `devanagari`, `[42]`...), one file per weight.
+type FontSubset = { family: string; package: string; key: string; ranges: [number, number][] };
+
+export type CardFont = {
+  /** Font name for satori, which takes one font per name and weight. */
+  name: string;
+  weight: (typeof FONT_WEIGHTS)[number];
+  style: 'normal';
+  /** WOFF data, for satori. */
+  data: Buffer;
+  /** The same font as TrueType, for resvg, and its file name. */
+  sfnt: Buffer;
+  sfntFileName: string;
+};
+
+// `U+0900-097F,U+20B9` → [[0x900, 0x97f], [0x20b9, 0x20b9]]
+function parseUnicodeRange(unicodeRange: string): [number, number][] {
+  return unicodeRange.split(',').map((part) => {
+    const [start, end = start] = part.trim().replace('U+', '').split('-');
+    return [parseInt(start, 16), parseInt(end, 16)];
+  });
+}
+
+async function fontSubsets(): Promise<FontSubset[]> {
+  const subsets = await Promise.all(
+    FONT_FAMILIES.map(async (family) => {
+      const unicode = await fs.readFile(require.resolve(`${family.package}/unicode.json`), 'utf8');
+      return Object.entries(JSON.parse(unicode) as Record<string, string>).map(([key, unicodeRange]) => ({
+        family: family.name,
+        package: family.package,
+        key,
+        ranges: parseUnicodeRange(unicodeRange),
+      }));
+    })
+  );
+  return subsets.flat();
+}
+
+// The subsets holding the characters of the text: a Japanese family has about 120 subsets, most of them unused.
+function subsetsOf(text: string, subsets: FontSubset[]): Set<FontSubset> {
+  const used = new Set<FontSubset>();
+  for (const char of new Set(text.replace(/\s/g, ''))) {
+    const codePoint = char.codePointAt(0)!;
+    const subset = subsets.find(({ ranges }) => ranges.some(([start, end]) => codePoint >= start && codePoint <= end));
+    if (subset) {
+      used.add(subset);
+    }
+  }
+  return used;
+}
+
+// Unpacks a WOFF 1.0 font (https://www.w3.org/TR/WOFF/): the same tables as the TrueType font, each zlib-compressed
+// unless that did not make it smaller.
+function woffToSfnt(woff: Buffer): Buffer {
+  const numTables = woff.readUInt16BE(12);
+  const entrySelector = Math.floor(Math.log2(numTables));
+  const searchRange = 2 ** entrySelector * 16;
+  const header = Buffer.alloc(12 + 16 * numTables);
+  woff.copy(header, 0, 4, 8); // flavor
+  header.writeUInt16BE(numTables, 4);
+  header.writeUInt16BE(searchRange, 6);
+  header.writeUInt16BE(entrySelector, 8);
+  header.writeUInt16BE(numTables * 16 - searchRange, 10);
+
+  const tables: Buffer[] = [];
+  let offset = header.length;
+  for (let i = 0; i < numTables; i++) {
+    const entry = 44 + i * 20;
+    const [tableOffset, compLength, origLength, origChecksum] = [4, 8, 12, 16].map((at) =>
+      woff.readUInt32BE(entry + at)
+    );
+    const compressed = woff.subarray(tableOffset, tableOffset + compLength);
+    const table = Buffer.alloc((origLength + 3) & ~3); // 4-byte aligned
+    (compLength < origLength ? zlib.inflateSync(compressed) : compressed).copy(table);
+
+    const record = 12 + i * 16;
+    woff.copy(header, record, entry, entry + 4); // tag
+    header.writeUInt32BE(origChecksum, record + 4);
+    header.writeUInt32BE(offset, record + 8);
+    header.writeUInt32BE(origLength, record + 12);
+    tables.push(table);
+    offset += table.length;
+  }
+  return Buffer.concat([header, ...tables]);
+}
+
+/**
+ * Loads the fonts needed to draw the text. satori reads TTF, OTF and WOFF fonts, but not WOFF2. The subsets but the
+ * `latin` one (the family named by the card) are named after their key; satori falls back to them for missing glyphs.
+ */
+export async function loadCardFonts(text: string): Promise<CardFont[]> {
+  const subsets = subsetsOf(text, await fontSubsets());
+  const fonts = [...subsets].flatMap((subset) =>
+    FONT_WEIGHTS.map(async (weight) => {
+      const fileName = `${subset.package.split('/')[1]}-${subset.key.replace(/[[\]]/g, '')}-${weight}-normal.woff`;
+      const data = await fs.readFile(require.resolve(`${subset.package}/files/${fileName}`));
+      return {
+        name: subset.key === 'latin' ? subset.family : `${subset.family} ${subset.key}`,
+        weight,
+        style: 'normal' as const,
+        data,
+        sfnt: woffToSfnt(data),
+        sfntFileName: fileName.replace(/\.woff$/, '.ttf'),
+      };
+    })
+  );
+  return Promise.all(fonts);
+}
+
+/** Writes the fonts as TrueType files to the directory, for resvg, which only loads fonts from files. */
+export async function writeCardFonts(fonts: CardFont[], dir: string): Promise<string[]> {
+  await fs.mkdir(dir, { recursive: true });
+  return Promise.all(
+    fonts.map(async ({ sfnt, sfntFileName }) => {
+      const file = path.join(dir, sfntFileName);
+      await fs.writeFile(file, sfnt);
+      return file;
+    })
+  );
+}
@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Resvg } from '@resvg/resvg-js';
+import satori from 'satori';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { LoadedContent, LoadedVersion } from '@docusaurus/plugin-content-docs';
+import { productForPermalink } from '../../src/data/products';
+import { getDeprecation, type DeprecationFrontMatter } from '../../src/utils/deprecation';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, ogImagePath } from '../../src/utils/ogImage';
+import { ogCard, type CardContent } from './card';
+import { loadCardFonts, writeCardFonts } from './fonts';
+
+const LOGO = 'static/img/logo.png';
+
+type SidebarItem = LoadedVersion['sidebars'][string][number];
+
+type Card = CardContent & { permalink: string };
+
+// Label of the top-level sidebar category holding the doc, or of the category it is the index page of.
+function sidebarSection(items: SidebarItem[], docId: string): string | undefined {
+  const contains = (item: SidebarItem): boolean => {
+    if (item.type === 'doc' || item.type === 'ref') {
+      return item.id === docId;
+    }
+    if (item.type === 'category') {
+      return (item.link?.type === 'doc' && item.link.id === docId) || item.items.some(contains);
+    }
+    return false;
+  };
+  const category = items.find((item) => item.type === 'category' && contains(item));
+  return category?.type === 'category' ? category.label : undefined;
+}
+
+/**
+ * Renders an Open Graph image for every doc page at build time, to `ogImagePath(permalink)`: the page title, its
+ * sidebar section, the product (with a "Deprecated" ribbon for deprecated products and pages) and the logo.
+ * `src/theme/DocItem/Metadata` points the page's `og:image` and `twitter:image` meta tags at it.
+ */
+export default function ogImagesPlugin(context: LoadContext): Plugin {
+  const { siteDir, siteConfig, baseUrl, generatedFilesDir } = context;
+  const cards: Card[] = [];
+
+  return {
+    name: 'dhenara-og-images',
+
+    async allContentLoaded({ allContent }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs'] as Record<string, LoadedContent> | undefined;
+      const logo = await fs.readFile(path.join(siteDir, LOGO));
+      cards.length = 0;
+
+      for (const { loadedVersions } of Object.values(docsContent ?? {})) {
+        for (const version of loadedVersions) {
+          for (const doc of version.docs) {
+            const product = productForPermalink(doc.permalink, baseUrl);
+            const deprecated = getDeprecation(doc.frontMatter as DeprecationFrontMatter) !== null;
+            cards.push({
+              permalink: doc.permalink,
+              title: doc.title,
+              product: product?.name ?? siteConfig.title,
+              section: doc.sidebar ? sidebarSection(version.sidebars[doc.sidebar] ?? [], doc.id) : undefined,
+              deprecated: deprecated || product?.status === 'deprecated',
+              siteTitle: siteConfig.title,
+              siteHost: new URL(siteConfig.url).host,
+              logo: `data:image/png;base64,${logo.toString('base64')}`,
+            });
+          }
+        }
+      }
+    },
+
+    async postBuild({ outDir }) {
+      const text = cards.flatMap(({ title, section, product, siteTitle, siteHost }) => [
+        title,
+        section ?? '',
+        product,
+        siteTitle,
+        siteHost,
+      ]);
+      const fonts = await loadCardFonts(text.join(''));
+      const fontFiles = await writeCardFonts(fonts, path.join(generatedFilesDir, 'dhenara-og-images', 'fonts'));
+
+      for (const card of cards) {
+        // satori lays the text out, but does not shape it: with `embedFont: false`, the text is left to resvg, which
+        // does (a Devanagari vowel sign drawn before its consonant, conjuncts...).
+        const svg = await satori(ogCard(card), {
+          width: OG_IMAGE_WIDTH,
+          height: OG_IMAGE_HEIGHT,
+          fonts,
+          embedFont: false,
+        });
+        const png = new Resvg(svg, { font: { fontFiles, loadSystemFonts: false, defaultFontFamily: 'Inter' } })
+          .render()
+          .asPng();
+        const filePath = path.join(outDir, ogImagePath(card.permalink, baseUrl).slice(baseUrl.length));
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, png);
+      }
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { PyodideRuntimeManifest } from './types';
+
+export type { PyodideRuntimeManifest } from './types';
+
+export type PyodideRuntimePluginOptions = {
+  /**
+   * Directory of wheels to bundle, relative to the site directory: the dhenara-ai wheel, its pure-Python dependencies,
+   * and the Pyodide distribution wheels of the `packages` below (e.g. `pydantic_core-*-pyodide_*_wasm32.whl`).
+   */
+  wheelsDir: string;
+  /** Pyodide packages, by their name in `pyodide-lock.json`, to load before the bundled wheels. */
+  packages: string[];
+};
+
+export const RUNTIME_MANIFEST_FILENAME = 'runtime.json';
+
+// Static directory the runtime is copied into; it is build output and is not committed.
+const STATIC_RUNTIME_DIR = 'static/pyodide';
+
+const PYODIDE_RUNTIME_FILES = [
+  'pyodide.js',
+  'pyodide.asm.js',
+  'pyodide.asm.wasm',
+  'python_stdlib.zip',
+  'pyodide-lock.json',
+];
+
+type PyodideLock = {
+  packages: Record<string, { file_name: string; depends: string[] }>;
+};
+
+// Lock file dependencies use either `_` or `-` in package names.
+function normalizePackageName(name: string): string {
+  return name.toLowerCase().replace(/_/g, '-');
+}
+
+function withDependencies(lock: PyodideLock, packages: string[]): string[] {
+  const resolved = new Set<string>();
+  const visit = (name: string) => {
+    const normalized = normalizePackageName(name);
+    if (!resolved.has(normalized)) {
+      resolved.add(normalized);
+      lock.packages[normalized]?.depends.forEach(visit);
+    }
+  };
+  packages.forEach(visit);
+  return [...resolved];
+}
+
+function copyRuntime(siteDir: string, { wheelsDir, packages }: PyodideRuntimePluginOptions): string[] | null {
+  const pyodideDir = path.dirname(require.resolve('pyodide/package.json'));
+  const outputPath = path.join(siteDir, STATIC_RUNTIME_DIR);
+  fs.rmSync(outputPath, { recursive: true, force: true });
+
+  const wheelsPath = path.join(siteDir, wheelsDir);
+  const wheels = fs.existsSync(wheelsPath) ? fs.readdirSync(wheelsPath).filter((file) => file.endsWith('.whl')) : [];
+  if (!wheels.some((file) => file.startsWith('dhenara_ai-'))) {
+    logger.warn`Test-mode runner disabled: no dhenara-ai wheel in path=${wheelsDir}.`;
+    return null;
+  }
+  const lock = JSON.parse(fs.readFileSync(path.join(pyodideDir, 'pyodide-lock.json'), 'utf8')) as PyodideLock;
+  const missing = withDependencies(lock, packages).filter(
+    (name) => !lock.packages[name] || !wheels.includes(lock.packages[name].file_name)
+  );
+  if (missing.length > 0) {
+    logger.warn`Test-mode runner disabled: path=${wheelsDir} lacks the Pyodide packages ${missing}.`;
+    return null;
+  }
+
+  fs.mkdirSync(outputPath, { recursive: true });
+  for (const file of PYODIDE_RUNTIME_FILES) {
+    fs.copyFileSync(path.join(pyodideDir, file), path.join(outputPath, file));
+  }
+  for (const wheel of wheels) {
+    fs.copyFileSync(path.join(wheelsPath, wheel), path.join(outputPath, wheel));
+  }
+  // Pyodide packages are resolved from the lock file by name; everything else is loaded by URL.
+  const lockFiles = new Set(Object.values(lock.packages).map(({ file_name }) => file_name));
+  return wheels.filter((wheel) => !lockFiles.has(wheel));
+}
+
+/**
+ * Bundles a self-hosted Pyodide runtime with the site for the "Run in test mode" code blocks.
+ *
+ * The runtime and wheels are copied into the static directory when the plugin is initialized, so both `start` and
+ * `build` serve them without a CDN. When the wheels are missing, the runner is disabled instead of failing the build.
+ */
+export default function pyodideRuntimePlugin(context: LoadContext, options: PyodideRuntimePluginOptions): Plugin {
+  const wheels = copyRuntime(context.siteDir, options);
+
+  return {
+    name: 'dhenara-pyodide-runtime',
+
+    getPathsToWatch() {
+      return [path.join(context.siteDir, options.wheelsDir, '*.whl')];
+    },
+
+    async contentLoaded({ actions }) {
+      const manifest: PyodideRuntimeManifest = wheels
+        ? {
+            available: true,
+            indexURL: `${context.baseUrl}pyodide/`,
+            packages: options.packages,
+            wheels: wheels.map((wheel) => `${context.baseUrl}pyodide/${wheel}`),
+          }
+        : { available: false };
+      await actions.createData(RUNTIME_MANIFEST_FILENAME, JSON.stringify(manifest));
+    },
+  };
+}
@@ -0,0 +1,11 @@
+export type PyodideRuntimeManifest =
+  | {
+      available: true;
+      /** URL of the bundled Pyodide runtime, with a trailing slash. */
+      indexURL: string;
+      /** Pyodide packages to load by name. */
+      packages: string[];
+      /** URLs of the other bundled wheels, including dhenara-ai. */
+      wheels: string[];
+    }
+  | { available: false };
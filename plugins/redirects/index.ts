@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import { normalizeUrl } from '@docusaurus/utils';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import { REDIRECTS } from '../../src/data/redirects';
+
+const HREF = /\shref="([^"#?]*)[^"]*"/g;
+
+// Site path of a built HTML file (`trailingSlash: false`): `dhenara-ai/introduction.html` is `/dhenara-ai/introduction`.
+function pageRoute(baseUrl: string, htmlFile: string): string {
+  return normalizeUrl([baseUrl, htmlFile.replace(/(^|\/)index\.html$|\.html$/, '')]);
+}
+
+function withoutTrailingSlash(route: string): string {
+  return route.replace(/(.)\/$/, '$1');
+}
+
+/**
+ * Serves the retired routes of `src/data/redirects.ts`: each gets a static page that redirects to its replacement.
+ * After the build, fails when a replacement route does not exist (or is itself retired, or a retired route is still
+ * served by a page), and reports the pages that still link to a retired route.
+ */
+export default function redirectsPlugin(context: LoadContext): Plugin {
+  const { baseUrl, siteConfig } = context;
+  const siteOrigin = new URL(siteConfig.url).origin;
+  const redirects = REDIRECTS.map(({ from, to }) => ({ from: normalizeUrl([baseUrl, from]), to }));
+
+  return {
+    name: 'dhenara-redirects',
+
+    async contentLoaded({ actions }) {
+      for (const { from, to } of redirects) {
+        actions.addRoute({ path: from, component: '@site/src/components/RedirectPage', exact: true, props: { to } });
+      }
+    },
+
+    async postBuild({ outDir, routesPaths }) {
+      const retired = new Set(redirects.map(({ from }) => from));
+      // Folder index docs are routed with a trailing slash, but served without it.
+      const routes = routesPaths.map(withoutTrailingSlash);
+      const errors: string[] = [];
+      for (const { from, to } of redirects) {
+        const target = normalizeUrl([baseUrl, to.split('#')[0]]);
+        if (!routes.includes(target)) {
+          errors.push(`${from} → ${to}: no page is served at ${target}`);
+        } else if (retired.has(target)) {
+          errors.push(`${from} → ${to}: ${target} is itself retired; point at its replacement instead`);
+        }
+        if (routes.filter((route) => route === from).length > 1) {
+          errors.push(`${from} is still served by a page; remove it from the redirects or retire that page`);
+        }
+      }
+      if (errors.length > 0) {
+        throw new Error(`Invalid redirects in src/data/redirects.ts:\n- ${errors.join('\n- ')}`);
+      }
+
+      const inboundLinks = new Map<string, Set<string>>();
+      const htmlFiles = (await fs.readdir(outDir, { recursive: true })).filter((file) => file.endsWith('.html'));
+      for (const htmlFile of htmlFiles) {
+        const page = pageRoute(baseUrl, htmlFile.split(path.sep).join('/'));
+        if (retired.has(page)) {
+          continue;
+        }
+        const html = await fs.readFile(path.join(outDir, htmlFile), 'utf8');
+        for (const [, href] of html.matchAll(HREF)) {
+          const url = new URL(href, `${siteOrigin}${page}`);
+          const route = withoutTrailingSlash(url.pathname);
+          if (href && url.origin === siteOrigin && retired.has(route)) {
+            inboundLinks.set(route, (inboundLinks.get(route) ?? new Set()).add(page));
+          }
+        }
+      }
+
+      if (inboundLinks.size === 0) {
+        logger.info`Redirects: none of the number=${retired.size} retired routes is linked from the docs.`;
+        return;
+      }
+      const report = [...inboundLinks].map(([route, pages]) => `- ${route} ← ${[...pages].sort().join(', ')}`);
+      logger.warn(
+        `Redirects: retired routes still linked from the docs; link their replacements instead:\n${report.join('\n')}`
+      );
+    },
+  };
+}
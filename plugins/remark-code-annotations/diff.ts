@@ -0,0 +1,34 @@
+export type LineChange =
+  | { kind: 'same'; text: string; index: number }
+  | { kind: 'add'; text: string; index: number }
+  | { kind: 'remove'; text: string };
+
+/**
+ * Line diff of two snippets, from their longest common subsequence of lines. `index` is the line's position in `after`.
+ * Where lines are replaced, the removed lines come first.
+ */
+export function diffLines(before: string[], after: string[]): LineChange[] {
+  // common[i][j]: length of the longest common subsequence of before[i..] and after[j..].
+  const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let [i, j] = [0, 0];
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      changes.push({ kind: 'same', text: after[j], index: j });
+      [i, j] = [i + 1, j + 1];
+    } else if (i < before.length && (j === after.length || common[i + 1][j] >= common[i][j + 1])) {
+      changes.push({ kind: 'remove', text: before[i] });
+      i += 1;
+    } else {
+      changes.push({ kind: 'add', text: after[j], index: j });
+      j += 1;
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,202 @@
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type { Code, List, Root } from 'mdast';
+import type { Node, Parent } from 'unist';
+import type { VFile } from 'vfile';
+import {
+  CALLOUTS_LIST_CLASS_NAME,
+  CALLOUTS_META_KEY,
+  DIFF_META_KEY,
+  DIRECTIVES,
+  FOLD_IMPORTS_META_FLAG,
+  MAX_CALLOUTS,
+  NAME_META_KEY,
+  calloutId,
+  metaValue,
+} from '../../src/utils/codeAnnotations';
+import { diffLines } from './diff';
+
+export type CodeAnnotationsOptions = {
+  /** Same semantics as the site's `onBrokenLinks`. */
+  onInvalidAnnotation: 'throw' | 'warn' | 'ignore';
+};
+
+type CodeBlock = { block: Code; parent: Parent; index: number };
+
+type AnnotatedLine = {
+  text: string;
+  change?: 'add' | 'remove';
+  callout?: number;
+};
+
+const JS_LANGUAGES = new Set(['js', 'javascript', 'jsx', 'ts', 'typescript', 'tsx']);
+
+// A callout marker ends a line: `# <1>`, or `// <1>` in JavaScript.
+const CALLOUT_MARKER = /\s*(?:#|\/\/)\s*<(\d+)>\s*$/;
+
+// The start of a Python or JavaScript import statement.
+const IMPORT_LINE = /^(?:from\s+\S+\s+)?import\s/;
+
+// Docusaurus ignores magic comments in blocks with a `{1,3-4}` line range.
+const LINE_RANGE_META = /\{[\d,-]+\}/;
+
+function collectCodeBlocks(node: Node, blocks: CodeBlock[] = []): CodeBlock[] {
+  ((node as Parent).children ?? []).forEach((child, index) => {
+    if (child.type === 'code') {
+      blocks.push({ block: child as Code, parent: node as Parent, index });
+    }
+    collectCodeBlocks(child, blocks);
+  });
+  return blocks;
+}
+
+function withoutMarker(line: string): string {
+  return line.replace(CALLOUT_MARKER, '');
+}
+
+// Number of lines of the leading import header: import statements, their parenthesized continuation lines and the
+// blank lines between them.
+function importHeaderLength(lines: AnnotatedLine[]): number {
+  let length = 0;
+  let openParens = 0;
+  for (const [index, { text }] of lines.entries()) {
+    if (openParens > 0 || IMPORT_LINE.test(text)) {
+      openParens += (text.match(/\(/g) ?? []).length - (text.match(/\)/g) ?? []).length;
+      length = index + 1;
+    } else if (text.trim() !== '') {
+      break;
+    }
+  }
+  return length;
+}
+
+// The block's lines with their magic comments: fold, then callout, then diff directives before a line.
+function renderLines(lines: AnnotatedLine[], foldedLines: number, comment: string): string {
+  const rendered: string[] = [];
+  lines.forEach(({ text, change, callout }, index) => {
+    const directives: string[] = [];
+    if (index === 0 && foldedLines > 0) {
+      directives.push(DIRECTIVES.foldSummary, DIRECTIVES.foldStart);
+    }
+    if (callout !== undefined) {
+      directives.push(DIRECTIVES.callout(callout));
+    }
+    if (change) {
+      directives.push(change === 'add' ? DIRECTIVES.diffAdd : DIRECTIVES.diffRemove);
+    }
+    rendered.push(...directives.map((directive) => `${comment} ${directive}`), text);
+    if (index === foldedLines - 1) {
+      rendered.push(`${comment} ${DIRECTIVES.foldEnd}`);
+    }
+  });
+  return rendered.join('\n');
+}
+
+/**
+ * Remark plugin for annotated code blocks:
+ *
+ * - a `# <1>` (`// <1>`) marker at the end of a line is a numbered callout, explained by the item of the same number
+ *   of the ordered list right after the block;
+ * - a block with `diff=<name>` in its meta is shown as a diff against the earlier block of the page with
+ *   `name=<name>`;
+ * - the `fold-imports` flag folds the block's leading import lines.
+ *
+ * Annotations become magic comments, so it runs after the plugins checking the authored code.
+ */
+export default function remarkCodeAnnotations(options: CodeAnnotationsOptions) {
+  return (tree: Root, file: VFile) => {
+    const diagnostics: string[] = [];
+    const report = (block: Code, message: string) =>
+      diagnostics.push(`${path.relative(process.cwd(), file.path)}:${block.position?.start.line ?? 0}: ${message}`);
+
+    // Named blocks of the page, without their callout markers.
+    const named = new Map<string, string[]>();
+    let calloutBlocks = 0;
+
+    for (const { block, parent, index } of collectCodeBlocks(tree)) {
+      const meta = block.meta ?? '';
+      const name = metaValue(meta, NAME_META_KEY);
+      const base = metaValue(meta, DIFF_META_KEY);
+      const foldImports = meta.split(/\s+/).includes(FOLD_IMPORTS_META_FLAG);
+      const source = block.value.split('\n');
+      const callouts = source.map((line) => {
+        const marker = CALLOUT_MARKER.exec(line);
+        return marker ? Number(marker[1]) : undefined;
+      });
+      const plain = source.map(withoutMarker);
+
+      if (name !== undefined) {
+        if (named.has(name)) {
+          report(block, `Duplicate code block name \`${name}\``);
+        }
+        named.set(name, plain);
+      }
+      if (base === undefined && !foldImports && callouts.every((number) => number === undefined)) {
+        continue;
+      }
+      if (LINE_RANGE_META.test(meta)) {
+        report(
+          block,
+          'Annotated code blocks can not highlight a `{...}` line range; use `highlight-next-line` comments'
+        );
+        continue;
+      }
+
+      const authored: AnnotatedLine[] = plain.map((text, line) => ({ text, callout: callouts[line] }));
+      let lines = authored;
+      if (base !== undefined) {
+        const before = named.get(base);
+        if (before) {
+          lines = diffLines(before, plain).map((change): AnnotatedLine => {
+            switch (change.kind) {
+              case 'same':
+                return authored[change.index];
+              case 'add':
+                return { ...authored[change.index], change: 'add' };
+              case 'remove':
+                return { text: change.text, change: 'remove' };
+            }
+          });
+        } else {
+          report(block, `\`${DIFF_META_KEY}=${base}\` names no earlier code block of the page`);
+        }
+      }
+
+      const foldedLines = foldImports ? importHeaderLength(lines) : 0;
+      if (foldImports && foldedLines === 0) {
+        report(block, `\`${FOLD_IMPORTS_META_FLAG}\` is set, but the block doesn't start with imports`);
+      }
+
+      const numbers = lines.flatMap(({ callout }) => (callout === undefined ? [] : [callout]));
+      if (numbers.length > 0) {
+        const list = parent.children[index + 1] as List | undefined;
+        if (numbers.some((number, position) => number !== position + 1) || numbers.length > MAX_CALLOUTS) {
+          report(block, `Callouts must be numbered 1, 2, 3... in order, up to ${MAX_CALLOUTS}`);
+        } else if (list?.type !== 'list' || !list.ordered || list.children.length !== numbers.length) {
+          report(
+            block,
+            `The ${numbers.length} callouts must be explained by an ordered list of as many items after it`
+          );
+        } else {
+          const id = `code-${++calloutBlocks}`;
+          list.data = { ...list.data, hProperties: { className: [CALLOUTS_LIST_CLASS_NAME] } };
+          list.children.forEach((item, position) => {
+            item.data = { ...item.data, hProperties: { id: calloutId(id, position + 1) } };
+          });
+          block.meta = `${meta} ${CALLOUTS_META_KEY}=${id}`.trim();
+        }
+      }
+
+      block.value = renderLines(lines, foldedLines, JS_LANGUAGES.has(block.lang ?? '') ? '//' : '#');
+    }
+
+    if (diagnostics.length === 0 || options.onInvalidAnnotation === 'ignore') {
+      return;
+    }
+    const message = `Invalid code block annotations found:\n- ${diagnostics.join('\n- ')}`;
+    if (options.onInvalidAnnotation === 'throw') {
+      throw new Error(message);
+    }
+    logger.warn(message);
+  };
+}
@@ -0,0 +1,86 @@
+import { parser } from '@lezer/python';
+
+export type SymbolManifest = Record<string, string[]>;
+
+export type SnippetIssue = {
+  /** 1-based line within the snippet. */
+  line: number;
+  message: string;
+};
+
+type ImportStatement = {
+  line: number;
+  module: string;
+  names: string[];
+};
+
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split('\n').length;
+}
+
+/** Returns the syntax errors the Python parser recovered from, one per line. */
+export function findSyntaxErrors(source: string): SnippetIssue[] {
+  const issues = new Map<number, SnippetIssue>();
+  parser.parse(source).iterate({
+    enter(node) {
+      if (node.type.isError) {
+        const line = lineAt(source, node.from);
+        const near = source.slice(node.from, node.to).trim() || source.split('\n')[line - 1].trim();
+        issues.set(line, { line, message: `Python syntax error near \`${near}\`` });
+      }
+    },
+  });
+  return [...issues.values()];
+}
+
+function findImports(source: string): ImportStatement[] {
+  const imports: ImportStatement[] = [];
+  parser.parse(source).iterate({
+    enter(node) {
+      if (node.name !== 'ImportStatement') {
+        return;
+      }
+      const statement = source
+        .slice(node.from, node.to)
+        .replace(/[()\\]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+      const line = lineAt(source, node.from);
+      const fromImport = /^from\s+([\w.]+)\s+import\s+(.+)$/.exec(statement);
+      if (fromImport) {
+        const names = fromImport[2].split(',').map((name) => name.trim().split(/\s+as\s+/)[0]);
+        imports.push({ line, module: fromImport[1], names: names.filter(Boolean) });
+        return;
+      }
+      for (const module of statement.replace(/^import\s+/, '').split(',')) {
+        imports.push({ line, module: module.trim().split(/\s+as\s+/)[0], names: [] });
+      }
+    },
+  });
+  return imports;
+}
+
+/**
+ * Checks the imports of the given packages against the symbol manifest. Imports of other packages (the standard
+ * library, pydantic, ...) are not checked.
+ */
+export function findUnknownImports(source: string, manifest: SymbolManifest, packages: string[]): SnippetIssue[] {
+  const issues: SnippetIssue[] = [];
+  for (const { line, module, names } of findImports(source)) {
+    if (!packages.some((pkg) => module === pkg || module.startsWith(`${pkg}.`))) {
+      continue;
+    }
+    const exported = manifest[module];
+    if (!exported) {
+      issues.push({ line, message: `Unknown module \`${module}\`` });
+      continue;
+    }
+    for (const name of names) {
+      // A submodule import (`from dhenara.ai import types`) is valid when the submodule exists.
+      if (name !== '*' && !exported.includes(name) && !manifest[`${module}.${name}`]) {
+        issues.push({ line, message: `\`${name}\` is not exported by \`${module}\`` });
+      }
+    }
+  }
+  return issues;
+}
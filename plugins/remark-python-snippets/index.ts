@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@docusaurus/logger';
+import type { Code, Root } from 'mdast';
+import type { Node, Parent } from 'unist';
+import type { VFile } from 'vfile';
+import { PARTIAL_META_FLAG } from '../../src/utils/pythonSnippets';
+import { findSyntaxErrors, findUnknownImports, type SymbolManifest } from './check';
+
+export type PythonSnippetsOptions = {
+  /**
+   * Symbol manifest (`{ version, modules: { [module]: symbols[] } }`) of each docs version (`current`, `1.0`...),
+   * relative to the site directory. Only needed when `packages` is not empty. A released version's manifest must be of
+   * that release.
+   */
+  manifests?: Record<string, string>;
+  /** Top-level packages whose imports are checked against the manifest; none checks the syntax only. */
+  packages: string[];
+  /** Same semantics as the site's `onBrokenLinks`. */
+  onInvalidSnippet: 'throw' | 'warn' | 'ignore';
+};
+
+const PYTHON_LANGUAGES = new Set(['python', 'py']);
+
+function collectCodeBlocks(node: Node, blocks: Code[] = []): Code[] {
+  if (node.type === 'code') {
+    blocks.push(node as Code);
+  }
+  for (const child of (node as Parent).children ?? []) {
+    collectCodeBlocks(child, blocks);
+  }
+  return blocks;
+}
+
+// The plugin lives in `plugins/remark-python-snippets`, and the build may run from another directory.
+const SITE_DIR = path.resolve(__dirname, '..', '..');
+
+// Versioned docs, and their translations, live in `version-<name>` directories; everything else is `current`.
+const VERSIONED_DOCS_PATH = /^(?:versioned_docs|i18n\/[^/]+\/docusaurus-plugin-content-docs[^/]*)\/version-([^/]+)\//;
+
+function docsVersion(filePath: string): string {
+  return VERSIONED_DOCS_PATH.exec(path.relative(SITE_DIR, filePath).split(path.sep).join('/'))?.[1] ?? 'current';
+}
+
+function loadManifests(manifestPaths: Record<string, string>): Map<string, SymbolManifest> {
+  return new Map(
+    Object.entries(manifestPaths).map(([version, manifestPath]) => {
+      const manifest = JSON.parse(fs.readFileSync(path.resolve(SITE_DIR, manifestPath), 'utf8')) as {
+        version: string;
+        modules: SymbolManifest;
+      };
+      if (version !== 'current' && manifest.version !== version) {
+        throw new Error(
+          `The Python snippets of docs version ${version} are checked against "${manifestPath}", the symbol ` +
+            `manifest of ${manifest.version}. Give the version the manifest of its release.`
+        );
+      }
+      return [version, manifest.modules];
+    })
+  );
+}
+
+/**
+ * Remark plugin validating the ```python blocks of the docs: each one must parse, and its imports of the documented
+ * packages must exist in the checked-in symbol manifest.
+ */
+export default function remarkPythonSnippets(options: PythonSnippetsOptions) {
+  const manifests = loadManifests(options.manifests ?? {});
+
+  return (tree: Root, file: VFile) => {
+    if (options.onInvalidSnippet === 'ignore') {
+      return;
+    }
+
+    const version = docsVersion(file.path);
+    const manifest = manifests.get(version);
+    if (!manifest && options.packages.length > 0) {
+      throw new Error(`No symbol manifest is configured for the Python snippets of docs version ${version}.`);
+    }
+
+    const diagnostics: string[] = [];
+    for (const block of collectCodeBlocks(tree)) {
+      if (!block.lang || !PYTHON_LANGUAGES.has(block.lang)) {
+        continue;
+      }
+      const partial = (block.meta ?? '').split(/\s+/).includes(PARTIAL_META_FLAG);
+      const issues = [
+        ...(partial ? [] : findSyntaxErrors(block.value)),
+        ...findUnknownImports(block.value, manifest ?? {}, options.packages),
+      ];
+      // The snippet starts on the line after the opening fence.
+      const firstLine = (block.position?.start.line ?? 0) + 1;
+      for (const { line, message } of issues.sort((a, b) => a.line - b.line)) {
+        diagnostics.push(`${path.relative(process.cwd(), file.path)}:${firstLine + line - 1}: ${message}`);
+      }
+    }
+
+    if (diagnostics.length === 0) {
+      return;
+    }
+    const message = `Invalid Python snippets found (add the \`${PARTIAL_META_FLAG}\` fence flag to skip the syntax check of an intentionally incomplete snippet):\n- ${diagnostics.join('\n- ')}`;
+    if (options.onInvalidSnippet === 'throw') {
+      throw new Error(message);
+    }
+    logger.warn(message);
+  };
+}
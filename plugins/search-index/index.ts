@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { aliasedSitePathToRelativePath } from '@docusaurus/utils';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { LoadedContent } from '@docusaurus/plugin-content-docs';
+import { productForPermalink } from '../../src/data/products';
+import { getDeprecation, type DeprecationFrontMatter } from '../../src/utils/deprecation';
+import { splitIntoSections } from './sections';
+import type { SearchDocument, SearchIndex } from './types';
+
+export const SEARCH_INDEX_FILENAME = 'search-index.json';
+
+/**
+ * Builds an offline full-text search index from the docs plugin content.
+ *
+ * The index is emitted as generated data, so both `start` and `build` serve it without any external service.
+ */
+export default function searchIndexPlugin(context: LoadContext): Plugin {
+  return {
+    name: 'dhenara-search-index',
+
+    async allContentLoaded({ allContent, actions }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs'] as Record<string, LoadedContent> | undefined;
+      const documents: SearchDocument[] = [];
+
+      for (const { loadedVersions } of Object.values(docsContent ?? {})) {
+        // Only the latest released version is searchable; older and unreleased versions would duplicate its hits.
+        for (const version of loadedVersions.filter(({ isLast }) => isLast)) {
+          for (const doc of version.docs) {
+            const product = productForPermalink(doc.permalink, context.baseUrl);
+            if (!product || doc.unlisted) {
+              continue;
+            }
+            const filePath = path.join(context.siteDir, aliasedSitePathToRelativePath(doc.source));
+            const markdown = await fs.readFile(filePath, 'utf8');
+            documents.push({
+              title: doc.title,
+              permalink: doc.permalink,
+              product: product.id,
+              // Deprecated pages stay searchable, but only when the reader opts in.
+              deprecated: getDeprecation(doc.frontMatter as DeprecationFrontMatter) !== null,
+              sections: splitIntoSections(markdown),
+            });
+          }
+        }
+      }
+
+      const index: SearchIndex = { documents };
+      await actions.createData(SEARCH_INDEX_FILENAME, JSON.stringify(index));
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { createSlugger, parseMarkdownHeadingId } from '@docusaurus/utils';
+import type { SearchSection } from './types';
+
+const FRONT_MATTER = /^---\n[\s\S]*?\n---\n/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+
+// Reduces inline Markdown/MDX to the text a reader actually sees.
+function toPlainText(line: string): string {
+  return line
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
+    .replace(/<\/?[A-Za-z][^>]*>/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*:::\w*.*$/, '')
+    .replace(/^\s*(import|export)\s.*$/, '')
+    .replace(/[*`~]/g, '')
+    .replace(/[|>]/g, ' ')
+    .replace(/^\s*[-+]\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Splits a Markdown document into one section per heading, with anchors matching the ones Docusaurus renders.
+ */
+export function splitIntoSections(markdown: string): SearchSection[] {
+  const slugger = createSlugger();
+  const sections: SearchSection[] = [];
+  let current: SearchSection = { heading: '', anchor: '', text: '' };
+  let inFence = false;
+
+  const flush = () => {
+    current.text = current.text.trim();
+    if (current.heading || current.text) {
+      sections.push(current);
+    }
+  };
+
+  for (const line of markdown.replace(FRONT_MATTER, '').split('\n')) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = inFence ? null : HEADING.exec(line);
+    if (heading) {
+      flush();
+      const { text, id } = parseMarkdownHeadingId(heading[2]);
+      const headingText = toPlainText(text);
+      const anchor = id ?? slugger.slug(headingText);
+      // The h1 is the page title, which already links to the top of the page.
+      current = { heading: headingText, anchor: heading[1].length === 1 ? '' : anchor, text: '' };
+      continue;
+    }
+    const text = inFence ? line.trim() : toPlainText(line);
+    if (text) {
+      current.text += `${text} `;
+    }
+  }
+  flush();
+
+  return sections;
+}
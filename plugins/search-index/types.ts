@@ -0,0 +1,23 @@
+import type { ProductId } from '../../src/data/products';
+
+export type SearchProduct = ProductId;
+
+export type SearchSection = {
+  /** Heading text; empty for the content before the first heading. */
+  heading: string;
+  /** Heading anchor, without the leading `#`; empty for the page top. */
+  anchor: string;
+  text: string;
+};
+
+export type SearchDocument = {
+  title: string;
+  permalink: string;
+  product: SearchProduct;
+  deprecated: boolean;
+  sections: SearchSection[];
+};
+
+export type SearchIndex = {
+  documents: SearchDocument[];
+};
@@ -0,0 +1,29 @@
+import logger from '@docusaurus/logger';
+import { aliasedSitePathToRelativePath } from '@docusaurus/utils';
+import type { Plugin } from '@docusaurus/types';
+import type { LoadedContent } from '@docusaurus/plugin-content-docs';
+import { ACTIVE_PRODUCTS } from '../../src/data/products';
+
+/**
+ * Build-time SEO checks: warns about pages of active products, in any version, without a `description` front matter
+ * field. Those pages fall back to their first paragraph for the meta description and the TechArticle JSON-LD.
+ */
+export default function seoPlugin(): Plugin {
+  return {
+    name: 'dhenara-seo',
+
+    async allContentLoaded({ allContent }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs'] as Record<string, LoadedContent> | undefined;
+
+      for (const product of ACTIVE_PRODUCTS) {
+        const content = docsContent?.[product.docsPluginId ?? 'default'];
+        const missing = (content?.loadedVersions ?? []).flatMap(({ docs }) =>
+          docs.filter(({ frontMatter }) => !frontMatter.description).map(({ source }) => source)
+        );
+        if (missing.length > 0) {
+          logger.warn`${missing.length} ${product.name} pages have no description in their front matter: path=${missing.map(aliasedSitePathToRelativePath)}`;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { aliasedSitePathToRelativePath, getFileCommitDate, getPluginI18nPath } from '@docusaurus/utils';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { LoadedContent, LoadedVersion } from '@docusaurus/plugin-content-docs';
+import { PRODUCTS } from '../../src/data/products';
+import type { TranslationState, TranslationStatus, TranslationStatusGroup } from './types';
+
+export const TRANSLATION_STATUS_FILENAME = 'translation-status.json';
+
+const DOCS_PLUGIN_NAME = 'docusaurus-plugin-content-docs';
+
+// Last change of a file: its last commit, or its modification time while it is not committed yet.
+async function lastChange(file: string): Promise<number> {
+  try {
+    return (await getFileCommitDate(file, { age: 'newest' })).timestamp;
+  } catch {
+    return (await fs.stat(file)).mtimeMs;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Builds the translation status of the docs for the `/translation-status` page: for every doc of the latest version of
+ * each docs plugin instance, whether each non-default locale has a translation, an outdated one, or none.
+ *
+ * The status is read from the files under `i18n/`, so every locale build emits the same status of all locales.
+ */
+export default function translationStatusPlugin(context: LoadContext): Plugin {
+  const { siteDir, baseUrl, i18n } = context;
+  const locales = i18n.locales.filter((locale) => locale !== i18n.defaultLocale);
+
+  // Where a doc of the version is translated to the locale, e.g. `i18n/hi/docusaurus-plugin-content-docs/version-1.0/`.
+  function localizedDocsDir(locale: string, pluginId: string, version: LoadedVersion): string {
+    return getPluginI18nPath({
+      localizationDir: path.resolve(siteDir, i18n.path, i18n.localeConfigs[locale]?.path ?? locale),
+      pluginName: DOCS_PLUGIN_NAME,
+      pluginId,
+      subPaths: [version.versionName === 'current' ? 'current' : `version-${version.versionName}`],
+    });
+  }
+
+  return {
+    name: 'dhenara-translation-status',
+
+    async allContentLoaded({ allContent, actions }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs'] as Record<string, LoadedContent> | undefined;
+      const groups: TranslationStatusGroup[] = [];
+
+      for (const [pluginId, { loadedVersions }] of Object.entries(docsContent ?? {})) {
+        const version = loadedVersions.find(({ isLast }) => isLast);
+        if (!version) {
+          continue;
+        }
+        const product = PRODUCTS.find(({ docsPluginId }) => (docsPluginId ?? 'default') === pluginId);
+        const group: TranslationStatusGroup = {
+          name: product?.name ?? pluginId,
+          versionLabel: version.label,
+          docs: [],
+        };
+
+        for (const doc of version.docs.filter(({ unlisted }) => !unlisted)) {
+          // In a locale build, translated docs are loaded from the localized directory instead of the English one.
+          const source = path.join(siteDir, aliasedSitePathToRelativePath(doc.source));
+          const contentDir = source.startsWith(version.contentPathLocalized)
+            ? version.contentPathLocalized
+            : version.contentPath;
+          const relativePath = path.relative(contentDir, source);
+          const englishChange = await lastChange(path.join(version.contentPath, relativePath));
+
+          const states: Record<string, TranslationState> = {};
+          for (const locale of locales) {
+            const translation = path.join(localizedDocsDir(locale, pluginId, version), relativePath);
+            if (!(await exists(translation))) {
+              states[locale] = 'missing';
+            } else {
+              states[locale] = (await lastChange(translation)) < englishChange ? 'outdated' : 'translated';
+            }
+          }
+          group.docs.push({ id: doc.id, title: doc.title, route: `/${doc.permalink.slice(baseUrl.length)}`, states });
+        }
+        groups.push(group);
+      }
+
+      const status: TranslationStatus = {
+        locales: locales.map((locale) => ({ locale, label: i18n.localeConfigs[locale]?.label ?? locale })),
+        groups,
+      };
+      await actions.createData(TRANSLATION_STATUS_FILENAME, JSON.stringify(status));
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * - `translated`: the translation was last changed after its English source.
+ * - `outdated`: the English source changed after the translation (by their last commits).
+ * - `missing`: no translation; the page is served in English.
+ */
+export type TranslationState = 'translated' | 'outdated' | 'missing';
+
+export type TranslationStatusDoc = {
+  id: string;
+  title: string;
+  /** Route of the page, without the base URL of the locale. */
+  route: string;
+  /** State of the doc in every locale but the default one. */
+  states: Record<string, TranslationState>;
+};
+
+/** The docs of a docs plugin instance, in its latest version. */
+export type TranslationStatusGroup = {
+  name: string;
+  versionLabel: string;
+  docs: TranslationStatusDoc[];
+};
+
+export type TranslationStatus = {
+  /** The translated locales, with their labels. */
+  locales: { locale: string; label: string }[];
+  groups: TranslationStatusGroup[];
+};
@@ -1,19 +1,18 @@
 import type { SidebarsConfig } from '@docusaurus/plugin-content-docs';
 
+// Sidebars of the versioned Dhenara AI docs (`docs/dhenara-ai`). Released versions keep their own snapshot under
+// `versioned_sidebars/`; the Agent DSL sidebar lives in `sidebarsAgent.ts`. Pages dropped from a sidebar are retired in
+// `src/data/redirects.ts`.
 const sidebars: SidebarsConfig = {
   // Sidebar for dhenara-ai
   dhenaraAiSidebar: [
     //{ type: 'html', value: '<div class="nav-section-title">Dhenara AI</div>', className: 'sidebar-section-title' },
-    'dhenara-ai/introduction',
+    'introduction',
     {
       type: 'category',
       label: 'Getting Started',
       collapsed: false,
-      items: [
-        'dhenara-ai/getting-started/installation',
-        'dhenara-ai/getting-started/quick-start',
-        'dhenara-ai/getting-started/key-concepts',
-      ],
+      items: ['getting-started/installation', 'getting-started/quick-start', 'getting-started/key-concepts'],
     },
     {
       type: 'category',
@@ -21,9 +20,9 @@ const sidebars: SidebarsConfig = {
       collapsed: false,
       link: {
         type: 'doc',
-        id: 'dhenara-ai/why-dhenara/why-dhenara',
+        id: 'why-dhenara/why-dhenara',
       },
-      items: ['dhenara-ai/why-dhenara/langchain-vs-dhenara'],
+      items: ['why-dhenara/langchain-vs-dhenara'],
     },
     {
       type: 'category',
@@ -31,17 +30,17 @@ const sidebars: SidebarsConfig = {
       collapsed: false,
       link: {
         type: 'doc',
-        id: 'dhenara-ai/features/features-overview',
+        id: 'features/features-overview',
       },
       items: [
-        'dhenara-ai/features/multi-turn-conversations',
-        'dhenara-ai/features/resource-configuration',
-        'dhenara-ai/features/usage-and-charge',
-        'dhenara-ai/features/streaming-simplified',
-        'dhenara-ai/features/type-safety',
-        'dhenara-ai/features/reasoning',
-        'dhenara-ai/features/test-mode-and-async',
-        'dhenara-ai/features/models',
+        'features/multi-turn-conversations',
+        'features/resource-configuration',
+        'features/usage-and-charge',
+        'features/streaming-simplified',
+        'features/type-safety',
+        'features/reasoning',
+        'features/test-mode-and-async',
+        'features/models',
       ],
     },
     {
@@ -53,17 +52,13 @@ const sidebars: SidebarsConfig = {
           type: 'category',
           label: 'Text Generation',
           collapsed: false,
-          items: [
-            'dhenara-ai/samples/text-gen/text-gen',
-            'dhenara-ai/samples/text-gen/text-gen-async',
-            'dhenara-ai/samples/text-gen/streaming',
-          ],
+          items: ['samples/text-gen/text-gen', 'samples/text-gen/text-gen-async', 'samples/text-gen/streaming'],
         },
         {
           type: 'category',
           label: 'Image Generation',
           collapsed: false,
-          items: ['dhenara-ai/samples/image-gen/image-gen'],
+          items: ['samples/image-gen/image-gen'],
         },
       ],
     },
@@ -73,234 +68,30 @@ const sidebars: SidebarsConfig = {
       label: 'Guides',
       collapsed: false,
       items: [
-        'dhenara-ai/guides/advanced-recipes',
-        'dhenara-ai/guides/runnable-examples',
-        'dhenara-ai/guides/prompt-formatter',
-        'dhenara-ai/guides/structured-output',
-        'dhenara-ai/guides/tools-and-function-calling',
-        'dhenara-ai/guides/artifacts-and-debugging',
+        'guides/advanced-recipes',
+        'guides/runnable-examples',
+        'guides/prompt-formatter',
+        'guides/legacy-context',
+        'guides/structured-output',
+        'guides/tools-and-function-calling',
+        'guides/artifacts-and-debugging',
+        'guides/artifacts-inspector',
+        'guides/migrating-from-agent-dsl',
       ],
     },
 
-    /*
-    {
-      type: 'category',
-      label: 'Guides',
-      items: [
-        'guides/basic-usage',
-        'guides/working-with-models',
-        'guides/streaming-responses',
-        'guides/file-integration',
-        {
-          type: 'category',
-          label: 'Provider Guides',
-          items: [
-            'guides/provider-guides/openai',
-            'guides/provider-guides/google-ai',
-            'guides/provider-guides/anthropic',
-            'guides/provider-guides/deepseek',
-          ],
-        },
-      ],
-    },
-    {
-      type: 'category',
-      label: 'Foundation Models',
-      items: [
-        'foundation-models/overview',
-        'foundation-models/text-generation',
-        'foundation-models/image-generation',
-        'foundation-models/custom-models',
-      ],
-    },
+    // Generated from the checked-in API dump by `plugins/api-reference`.
     {
       type: 'category',
       label: 'API Reference',
-      items: [
-        'api-reference/aimodelclient',
-        'api-reference/types-system',
-        'api-reference/providers',
-        'api-reference/configuration',
-      ],
-    },
-    {
-      type: 'category',
-      label: 'Advanced',
-      items: [
-        'advanced/customization',
-        'advanced/error-handling',
-        'advanced/performance-tips',
-        'advanced/contributing',
-      ],
-    },
-    */
-  ],
-
-  // Sidebar for dhenara-agent
-  dhenaraAgentSidebar: [
-    //{
-    //  type: 'html',
-    //  value: '<div class="nav-section-title">Dhenara Agent DSL</div>',
-    //  className: 'sidebar-section-title',
-    //},
-    // 1) Intro
-    'dhenara-agent/introduction',
-
-    // 2) Getting Started
-    {
-      type: 'category',
-      label: 'Getting Started',
-      collapsed: true,
-      items: ['dhenara-agent/getting-started/installation', 'dhenara-agent/getting-started/quick-start'],
-    },
-
-    // 3) Concepts
-    {
-      type: 'category',
-      label: 'Concepts',
-      collapsed: true,
-      items: [
-        'dhenara-agent/concepts/core-concepts',
-        {
-          type: 'category',
-          label: 'Components',
-          collapsed: true,
-          items: [
-            'dhenara-agent/concepts/components/nodes',
-            'dhenara-agent/concepts/components/flows',
-            'dhenara-agent/concepts/components/agents',
-            'dhenara-agent/concepts/components/custom-components',
-          ],
-        },
-        'dhenara-agent/concepts/templating-system',
-        'dhenara-agent/concepts/flow-control',
-        'dhenara-agent/concepts/execution-context',
-        'dhenara-agent/concepts/observability',
-        'dhenara-agent/concepts/run-system',
-        'dhenara-agent/concepts/event-system',
-        'dhenara-agent/concepts/input-handling',
-      ],
-    },
-    // 4) Guides( Tutorials & Examples merged)
-    {
-      type: 'category',
-      label: 'Guides',
       collapsed: true,
-      collapsible: true,
       link: {
-        type: 'doc',
-        //id: 'dhenara-agent/guides/tutorials/index',
-        id: 'dhenara-agent/guides/examples/index',
+        type: 'generated-index',
+        title: 'API Reference',
+        description: 'Public Python API of the dhenara-ai package.',
+        slug: '/api-reference',
       },
-      items: [
-        /*
-        {
-          type: 'category',
-          label: 'Tutorials',
-          collapsed: true,
-          collapsible: true,
-          link: {
-            type: 'doc',
-            id: 'dhenara-agent/guides/tutorials/index',
-          },
-          items: [
-            // Tutorials
-            {
-              type: 'category',
-              label: 'Single Shot Command-Line Coding Assistant',
-              link: {
-                type: 'doc',
-                id: 'dhenara-agent/guides/tutorials/command-line-coder/index',
-              },
-              collapsed: true,
-              collapsible: true,
-              items: [
-                'dhenara-agent/guides/tutorials/single-shot-coder/part-1',
-                'dhenara-agent/guides/tutorials/single-shot-coder/part-2',
-                'dhenara-agent/guides/tutorials/single-shot-coder/part-3',
-              ],
-            },
-
-            //{
-            //  type: 'category',
-            //  label: 'Enhanced Command-Line Coding Assistant',
-            //  link: {
-            //    type: 'doc',
-            //    id: 'dhenara-agent/guides/tutorials/command-line-coder/index',
-            //  },
-            //  collapsed: true,
-            //  collapsible: true,
-            //  items: [
-            //    'dhenara-agent/guides/tutorials/command-line-coder/part-1',
-            //    'dhenara-agent/guides/tutorials/command-line-coder/part-2',
-            //    'dhenara-agent/guides/tutorials/command-line-coder/part-3',
-            //    'dhenara-agent/guides/tutorials/command-line-coder/part-4',
-            //  ],
-            //},
-          ],
-        },
-        */
-
-        // Examples
-        {
-          type: 'category',
-          label: 'Examples',
-          collapsed: true,
-          collapsible: true,
-          link: {
-            type: 'doc',
-            id: 'dhenara-agent/guides/examples/index',
-          },
-          items: [
-            'dhenara-agent/guides/examples/simple-chatbot',
-            //'dhenara-agent/guides/examples/auto-coder',
-            //'dhenara-agent/guides/examples/single-shot-coder',
-            'dhenara-agent/guides/examples/image-agent',
-          ],
-        },
-      ],
-    },
-
-    // 5) Core Architecture
-    {
-      type: 'category',
-      label: 'Architecture',
-      collapsed: true,
-      collapsible: true,
-      items: [
-        'dhenara-agent/architecture/overview',
-        'dhenara-agent/architecture/component-model',
-        'dhenara-agent/architecture/execution-model',
-      ],
-    },
-
-    // 6) CLI
-    {
-      type: 'category',
-      label: 'Command-Line Interface',
-      collapsed: false,
-      link: {
-        type: 'doc',
-        id: 'dhenara-agent/cli/index',
-      },
-      items: ['dhenara-agent/cli/overview', 'dhenara-agent/cli/commands', 'dhenara-agent/cli/extending'],
-    },
-
-    // 7) API Reference
-    {
-      type: 'category',
-      label: 'API Reference',
-      collapsed: false,
-      link: {
-        type: 'doc',
-        id: 'dhenara-agent/api-reference/index',
-      },
-      items: [
-        //'dhenara-agent/api-reference/core-api',
-        //'dhenara-agent/api-reference/agent-api',
-        //'dhenara-agent/api-reference/flow-api',
-        //'dhenara-agent/api-reference/node-api',
-      ],
+      items: [{ type: 'autogenerated', dirName: 'api-reference' }],
     },
   ],
 };
@@ -0,0 +1,112 @@
+import type { SidebarsConfig } from '@docusaurus/plugin-content-docs';
+
+// Sidebar of the deprecated Agent DSL docs (`docs/dhenara-agent`), which are frozen and not versioned.
+const sidebars: SidebarsConfig = {
+  // Sidebar for dhenara-agent
+  dhenaraAgentSidebar: [
+    //{
+    //  type: 'html',
+    //  value: '<div class="nav-section-title">Dhenara Agent DSL</div>',
+    //  className: 'sidebar-section-title',
+    //},
+    // 1) Intro
+    'introduction',
+
+    // 2) Getting Started
+    {
+      type: 'category',
+      label: 'Getting Started',
+      collapsed: true,
+      items: ['getting-started/installation', 'getting-started/quick-start'],
+    },
+
+    // 3) Concepts
+    {
+      type: 'category',
+      label: 'Concepts',
+      collapsed: true,
+      items: [
+        'concepts/core-concepts',
+        {
+          type: 'category',
+          label: 'Components',
+          collapsed: true,
+          items: [
+            'concepts/components/nodes',
+            'concepts/components/flows',
+            'concepts/components/agents',
+            'concepts/components/custom-components',
+          ],
+        },
+        'concepts/templating-system',
+        'concepts/flow-control',
+        'concepts/execution-context',
+        'concepts/observability',
+        'concepts/run-system',
+        'concepts/event-system',
+        'concepts/input-handling',
+      ],
+    },
+    // 4) Guides( Tutorials & Examples merged)
+    {
+      type: 'category',
+      label: 'Guides',
+      collapsed: true,
+      collapsible: true,
+      items: [
+        // Examples
+        {
+          type: 'category',
+          label: 'Examples',
+          collapsed: true,
+          collapsible: true,
+          link: {
+            type: 'doc',
+            id: 'guides/examples/index',
+          },
+          items: ['guides/examples/simple-chatbot', 'guides/examples/image-agent'],
+        },
+      ],
+    },
+
+    // 5) Core Architecture
+    {
+      type: 'category',
+      label: 'Architecture',
+      collapsed: true,
+      collapsible: true,
+      items: ['architecture/overview', 'architecture/component-model', 'architecture/execution-model'],
+    },
+
+    // 6) CLI
+    {
+      type: 'category',
+      label: 'Command-Line Interface',
+      collapsed: false,
+      link: {
+        type: 'doc',
+        id: 'cli/index',
+      },
+      items: ['cli/overview', 'cli/commands', 'cli/extending'],
+    },
+
+    // 7) API Reference
+    {
+      type: 'category',
+      label: 'API Reference',
+      collapsed: false,
+      link: {
+        type: 'doc',
+        id: 'api-reference/index',
+      },
+      items: [
+        //'api-reference/core-api',
+        //'api-reference/agent-api',
+        //'api-reference/flow-api',
+        //'api-reference/node-api',
+      ],
+    },
+  ],
+};
+
+export default sidebars;
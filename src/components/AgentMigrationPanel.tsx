@@ -0,0 +1,58 @@
+import React, { JSX } from 'react';
+import Link from '@docusaurus/Link';
+import { translate } from '@docusaurus/Translate';
+import { MIGRATION_GUIDE_PATH, type AgentMigration } from '../data/agentMigration';
+import './AgentMigrationPanel.css';
+
+type Props = {
+  migration: AgentMigration;
+};
+
+function ApiList({ label, items }: { label: string; items: string[] }) {
+  return (
+    <div className="agent-migration-panel-apis">
+      <span>{label}</span>
+      <ul>
+        {items.map((item) => (
+          <li key={item}>
+            <code>{item}</code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** "How to do this in Dhenara AI" panel shown on the Agent DSL pages covered by the migration table. */
+export default function AgentMigrationPanel({ migration }: Props): JSX.Element {
+  return (
+    <aside className="agent-migration-panel">
+      <div className="agent-migration-panel-title">
+        {translate({ id: 'agentMigration.panel.title', message: 'How to do this in Dhenara AI' })}
+      </div>
+      <p>{migration.summary}</p>
+      <div className="agent-migration-panel-mapping">
+        <ApiList label="Agent DSL" items={migration.agentApi} />
+        <span className="agent-migration-panel-arrow" aria-hidden="true">
+          →
+        </span>
+        <ApiList label="Dhenara AI" items={migration.dhenaraAiApi} />
+      </div>
+      <ul className="agent-migration-panel-links">
+        <li>
+          <Link to={`${MIGRATION_GUIDE_PATH}#${migration.id}`}>
+            {translate(
+              { id: 'agentMigration.panel.guide', message: 'Migration guide: {concept}' },
+              { concept: migration.concept }
+            )}
+          </Link>
+        </li>
+        {migration.links.map(({ label, to }) => (
+          <li key={to}>
+            <Link to={to}>{label}</Link>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
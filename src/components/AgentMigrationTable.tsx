@@ -0,0 +1,51 @@
+import React, { JSX } from 'react';
+import { translate } from '@docusaurus/Translate';
+import { AGENT_MIGRATIONS } from '../data/agentMigration';
+import './AgentMigrationTable.css';
+
+function CodeList({ items }: { items: string[] }) {
+  return (
+    <>
+      {items.map((item, index) => (
+        <React.Fragment key={item}>
+          {index > 0 && ', '}
+          <code>{item}</code>
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+/** The full Agent DSL → Dhenara AI concept mapping; each row links to its section of the migration guide. */
+export default function AgentMigrationTable(): JSX.Element {
+  return (
+    <div className="agent-migration-table-wrapper">
+      <table className="agent-migration-table">
+        <thead>
+          <tr>
+            <th>{translate({ id: 'agentMigration.table.concept', message: 'Agent DSL concept' })}</th>
+            <th>Agent DSL</th>
+            <th>Dhenara AI</th>
+            <th>{translate({ id: 'agentMigration.table.mapping', message: 'How it maps' })}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {AGENT_MIGRATIONS.map((migration) => (
+            <tr key={migration.id}>
+              <td>
+                <a href={`#${migration.id}`}>{migration.concept}</a>
+              </td>
+              <td>
+                <CodeList items={migration.agentApi} />
+              </td>
+              <td>
+                <CodeList items={migration.dhenaraAiApi} />
+              </td>
+              <td>{migration.summary}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { JSX, useState } from 'react';
+import clsx from 'clsx';
+import Translate, { translate } from '@docusaurus/Translate';
+import { usePluralForm } from '@docusaurus/theme-common';
+import CodeBlock from '@theme/CodeBlock';
+import {
+  ARTIFACT_STAGES,
+  groupArtifactCalls,
+  readArtifactFiles,
+  readDroppedItems,
+  requestedModel,
+  summarizeChatResponse,
+  type ArtifactCall,
+  type ArtifactStage,
+  type LogRecord,
+  type ParsedJson,
+} from '../utils/artifacts';
+import './ArtifactsInspector.css';
+
+type LoadState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'loaded'; calls: ArtifactCall[]; fileCount: number }
+  | { status: 'failed'; error: string };
+
+const STAGE_LABELS: Record<ArtifactStage, string> = {
+  dhenara_request: translate({ id: 'artifactsInspector.stage.dhenaraRequest', message: 'Dhenara request' }),
+  provider_request: translate({ id: 'artifactsInspector.stage.providerRequest', message: 'Provider request' }),
+  provider_response: translate({ id: 'artifactsInspector.stage.providerResponse', message: 'Provider response' }),
+  dhenara_response: translate({ id: 'artifactsInspector.stage.dhenaraResponse', message: 'Parsed response' }),
+};
+
+// Non-standard attributes that make a file input pick a whole directory; every current browser supports them.
+const DIRECTORY_INPUT_ATTRIBUTES = { webkitdirectory: '', directory: '' };
+
+function JsonFile({ file }: { file: ParsedJson }) {
+  if ('error' in file) {
+    return (
+      <p className="artifacts-inspector-error">
+        <Translate id="artifactsInspector.invalidJson" values={{ path: <code>{file.path}</code>, error: file.error }}>
+          {'{path} is not valid JSON: {error}'}
+        </Translate>
+      </p>
+    );
+  }
+  return (
+    <CodeBlock language="json" title={file.path}>
+      {JSON.stringify(file.value, null, 2)}
+    </CodeBlock>
+  );
+}
+
+function ChatResponseSummary({ file }: { file?: ParsedJson }) {
+  const summary = file && 'value' in file ? summarizeChatResponse(file.value) : undefined;
+  if (!summary) {
+    return null;
+  }
+  return (
+    <div className="artifacts-inspector-summary">
+      {summary.contents.map((content, index) => (
+        <div key={index} className="artifacts-inspector-content">
+          <span className="badge badge--secondary">{content.type}</span>
+          <pre>{content.text}</pre>
+        </div>
+      ))}
+      {(summary.usage || summary.usageCharge) && (
+        <table>
+          <tbody>
+            {Object.entries({ ...summary.usage, ...summary.usageCharge }).map(([name, value]) => (
+              <tr key={name}>
+                <th>
+                  <code>{name}</code>
+                </th>
+                <td>{value === null ? '—' : String(value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function Logs({ logs }: { logs: LogRecord[] }) {
+  return (
+    <table className="artifacts-inspector-logs">
+      <tbody>
+        {logs.map((log, index) => (
+          <tr key={index} className={clsx(log.level && `artifacts-inspector-log--${log.level.toLowerCase()}`)}>
+            <td>{log.time}</td>
+            <td>{log.level}</td>
+            <td>
+              <code>{log.logger}</code>
+            </td>
+            <td>{log.message}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function CallCard({ call, index }: { call: ArtifactCall; index: number }) {
+  const model = requestedModel(call);
+
+  return (
+    <li className="artifacts-inspector-call">
+      <header>
+        <span className="artifacts-inspector-call-index">#{index + 1}</span>
+        <code>{call.id}</code>
+        {model && <span className="badge badge--primary">{model}</span>}
+        <time dateTime={new Date(call.startedAt).toISOString()}>{new Date(call.startedAt).toLocaleString()}</time>
+      </header>
+      <ChatResponseSummary file={call.stages.dhenara_response} />
+      {ARTIFACT_STAGES.map((stage) => {
+        const file = call.stages[stage];
+        return (
+          <details key={stage} className="artifacts-inspector-stage">
+            <summary>
+              {STAGE_LABELS[stage]}
+              {!file && (
+                <span className="artifacts-inspector-missing">
+                  {' '}
+                  {translate({ id: 'artifactsInspector.stage.missing', message: '(not captured)' })}
+                </span>
+              )}
+            </summary>
+            {file && <JsonFile file={file} />}
+          </details>
+        );
+      })}
+      {call.logs.length > 0 && (
+        <details className="artifacts-inspector-stage">
+          <summary>
+            {translate(
+              { id: 'artifactsInspector.logs', message: 'Python logs ({count})' },
+              { count: call.logs.length }
+            )}
+          </summary>
+          <Logs logs={call.logs} />
+        </details>
+      )}
+      {call.otherFiles.map((file) => (
+        <details key={file.path} className="artifacts-inspector-stage">
+          <summary>
+            <code>{file.path}</code>
+          </summary>
+          <JsonFile file={file} />
+        </details>
+      ))}
+    </li>
+  );
+}
+
+/**
+ * Reads an artifacts directory (`ArtifactConfig.artifact_root`), or a zip of it, and shows a timeline of its calls.
+ * Everything is parsed in the browser: no file is uploaded.
+ */
+export default function ArtifactsInspector(): JSX.Element {
+  const [state, setState] = useState<LoadState>({ status: 'idle' });
+  const [dragging, setDragging] = useState(false);
+  const { selectMessage } = usePluralForm();
+
+  const load = async (files: Promise<File[]>) => {
+    setState({ status: 'loading' });
+    try {
+      const artifactFiles = await readArtifactFiles(await files);
+      setState({ status: 'loaded', calls: groupArtifactCalls(artifactFiles), fileCount: artifactFiles.length });
+    } catch (error) {
+      setState({ status: 'failed', error: (error as Error).message });
+    }
+  };
+
+  const onDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    void load(readDroppedItems(event.dataTransfer.items));
+  };
+
+  const onChoose = (event: React.ChangeEvent<HTMLInputElement>) => {
+    void load(Promise.resolve(Array.from(event.target.files ?? [])));
+    // Allow choosing the same directory again after the files changed.
+    event.target.value = '';
+  };
+
+  return (
+    <div className="artifacts-inspector">
+      <div
+        className={clsx('artifacts-inspector-dropzone', dragging && 'artifacts-inspector-dropzone--active')}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={onDrop}
+      >
+        <p>
+          <Translate id="artifactsInspector.drop" values={{ zip: <code>.zip</code> }}>
+            {'Drop an artifacts directory or a {zip} of it here, or'}
+          </Translate>
+        </p>
+        <div className="artifacts-inspector-buttons">
+          <label className="button button--primary button--sm">
+            {translate({ id: 'artifactsInspector.chooseDirectory', message: 'Choose a directory' })}
+            <input type="file" hidden multiple onChange={onChoose} {...DIRECTORY_INPUT_ATTRIBUTES} />
+          </label>
+          <label className="button button--secondary button--sm">
+            {translate({ id: 'artifactsInspector.chooseFiles', message: 'Choose a zip or JSON files' })}
+            <input type="file" hidden multiple accept=".zip,.json,.jsonl" onChange={onChoose} />
+          </label>
+        </div>
+        <small>
+          {translate({
+            id: 'artifactsInspector.privacy',
+            message: 'Files are read in your browser and never uploaded.',
+          })}
+        </small>
+      </div>
+
+      {state.status === 'loading' && (
+        <p>{translate({ id: 'artifactsInspector.loading', message: 'Reading artifacts…' })}</p>
+      )}
+      {state.status === 'failed' && <p className="artifacts-inspector-error">{state.error}</p>}
+      {state.status === 'loaded' &&
+        (state.calls.length === 0 ? (
+          <p className="artifacts-inspector-error">
+            <Translate
+              id="artifactsInspector.empty"
+              values={{
+                json: <code>.json</code>,
+                jsonl: <code>.jsonl</code>,
+                artifactRoot: <code>artifact_root</code>,
+              }}
+            >
+              {
+                'No {json} or {jsonl} artifacts found. Drop the {artifactRoot} directory of your calls, or one of its subdirectories.'
+              }
+            </Translate>
+          </p>
+        ) : (
+          <>
+            <p>
+              {selectMessage(
+                state.calls.length,
+                translate(
+                  {
+                    id: 'artifactsInspector.calls',
+                    message:
+                      '{count} call from {fileCount} files, oldest first.|{count} calls from {fileCount} files, oldest first.',
+                  },
+                  { count: state.calls.length, fileCount: state.fileCount }
+                )
+              )}
+            </p>
+            <ol className="artifacts-inspector-timeline">
+              {state.calls.map((call, index) => (
+                <CallCard key={call.id} call={call} index={index} />
+              ))}
+            </ol>
+          </>
+        ))}
+    </div>
+  );
+}
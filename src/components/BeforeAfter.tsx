@@ -0,0 +1,35 @@
+import React, { JSX, ReactNode } from 'react';
+import './BeforeAfter.css';
+
+type Props = {
+  beforeLabel?: string;
+  afterLabel?: string;
+  /** Exactly two blocks, usually fenced code blocks: the code before and after the change. */
+  children: ReactNode;
+};
+
+/** Side-by-side "before / after" comparison, stacked on narrow screens. */
+export default function BeforeAfter({
+  beforeLabel = 'Agent DSL',
+  afterLabel = 'Dhenara AI',
+  children,
+}: Props): JSX.Element {
+  const blocks = React.Children.toArray(children).filter(React.isValidElement);
+  if (blocks.length !== 2) {
+    throw new Error(`<BeforeAfter> expects exactly two children (before and after), got ${blocks.length}.`);
+  }
+  const [before, after] = blocks;
+
+  return (
+    <div className="before-after">
+      <div className="before-after-pane">
+        <div className="before-after-label before-after-label--before">{beforeLabel}</div>
+        {before}
+      </div>
+      <div className="before-after-pane">
+        <div className="before-after-label before-after-label--after">{afterLabel}</div>
+        {after}
+      </div>
+    </div>
+  );
+}
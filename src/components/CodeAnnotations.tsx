@@ -0,0 +1,60 @@
+import React, { JSX, ReactNode, createContext, useContext } from 'react';
+import { translate } from '@docusaurus/Translate';
+import { calloutId, type CodeAnnotations } from '../utils/codeAnnotations';
+import './CodeAnnotations.css';
+
+type CodeAnnotationsContextValue = CodeAnnotations & {
+  importsFolded: boolean;
+  toggleImports: () => void;
+};
+
+const CodeAnnotationsContext = createContext<CodeAnnotationsContextValue | undefined>(undefined);
+
+/** Makes a code block's annotations available to its lines and copy button. */
+export function CodeAnnotationsProvider({
+  value,
+  children,
+}: {
+  value: CodeAnnotationsContextValue;
+  children: ReactNode;
+}): JSX.Element {
+  return <CodeAnnotationsContext.Provider value={value}>{children}</CodeAnnotationsContext.Provider>;
+}
+
+/** The annotations of the enclosing code block; `undefined` in a block without annotations. */
+export function useCodeAnnotations(): CodeAnnotationsContextValue | undefined {
+  return useContext(CodeAnnotationsContext);
+}
+
+/** A callout number at the end of a line, linking to its explanation below the block. */
+export function CalloutMarker({ callouts, number }: { callouts: string; number: number }): JSX.Element {
+  return (
+    <a
+      className="code-block-callout-marker"
+      href={`#${calloutId(callouts, number)}`}
+      aria-label={translate({ id: 'codeBlock.callout', message: 'Note {number}' }, { number })}
+    >
+      {number}
+    </a>
+  );
+}
+
+/** The line showing or hiding a folded import header. */
+export function ImportsToggle(): JSX.Element {
+  const { foldedLines, foldChanged, importsFolded, toggleImports } = useCodeAnnotations()!;
+  const label = importsFolded
+    ? translate({ id: 'codeBlock.imports.show', message: '{count} import lines' }, { count: foldedLines })
+    : translate({ id: 'codeBlock.imports.hide', message: 'Hide imports' });
+  return (
+    <span className="code-block-imports-toggle">
+      <button type="button" className="clean-btn" aria-expanded={!importsFolded} onClick={toggleImports}>
+        {importsFolded ? '▸' : '▾'} {label}
+        {importsFolded && foldChanged && (
+          <span className="code-block-imports-changed">
+            {translate({ id: 'codeBlock.imports.changed', message: 'changed' })}
+          </span>
+        )}
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { JSX, useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { translate } from '@docusaurus/Translate';
+import './CopyButton.css';
+
+type Props = {
+  /** Text to copy, or a function loading it when the button is clicked. */
+  text: string | (() => Promise<string>);
+  label?: string;
+  className?: string;
+};
+
+const COPIED_RESET_MS = 1500;
+
+// Safari drops the click's user activation while the text loads, and then refuses `writeText`: a loading text is handed
+// to the clipboard right away, as the promise of a `ClipboardItem`.
+function copy(text: Props['text']): Promise<void> {
+  if (typeof text === 'string') {
+    return navigator.clipboard.writeText(text);
+  }
+  if (typeof ClipboardItem === 'undefined') {
+    return text().then((value) => navigator.clipboard.writeText(value));
+  }
+  const blob = text().then((value) => new Blob([value], { type: 'text/plain' }));
+  return navigator.clipboard.write([new ClipboardItem({ 'text/plain': blob })]);
+}
+
+export default function CopyButton({
+  text,
+  label = translate({ id: 'copyButton.copy', message: 'Copy' }),
+  className,
+}: Props): JSX.Element {
+  const [copied, setCopied] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!copied && !failed) {
+      return undefined;
+    }
+    const timeout = window.setTimeout(() => {
+      setCopied(false);
+      setFailed(false);
+    }, COPIED_RESET_MS);
+    return () => window.clearTimeout(timeout);
+  }, [copied, failed]);
+
+  const onClick = () =>
+    copy(text).then(
+      () => setCopied(true),
+      () => setFailed(true)
+    );
+
+  return (
+    <button
+      type="button"
+      className={clsx('copy-button', copied && 'copy-button--copied', className)}
+      onClick={onClick}
+      title={typeof text === 'string' ? text : undefined}
+    >
+      {copied
+        ? translate({ id: 'copyButton.copied', message: 'Copied' })
+        : failed
+          ? translate({ id: 'copyButton.failed', message: 'Copy failed' })
+          : label}
+    </button>
+  );
+}
@@ -0,0 +1,35 @@
+import React, { JSX } from 'react';
+import { translate } from '@docusaurus/Translate';
+import CopyButton from './CopyButton';
+import { markdownExportPath } from '../utils/markdownExport';
+import './CopyPageMarkdown.css';
+
+// The exports only exist in production builds. Without one (e.g. under `docusaurus start`), the URL falls through to
+// the app's `index.html`, with status 200.
+function loadMarkdown(permalink: string): Promise<string> {
+  return fetch(markdownExportPath(permalink)).then((response) => {
+    if (!response.ok) {
+      return Promise.reject(new Error(response.statusText));
+    }
+    if (response.headers.get('content-type')?.includes('text/html')) {
+      return Promise.reject(new Error('No Markdown export of this page'));
+    }
+    return response.text();
+  });
+}
+
+type Props = {
+  permalink: string;
+};
+
+/** Copies the Markdown export of a doc page, for pasting into an AI assistant. */
+export default function CopyPageMarkdown({ permalink }: Props): JSX.Element {
+  return (
+    <div className="copy-page-markdown">
+      <CopyButton
+        text={() => loadMarkdown(permalink)}
+        label={translate({ id: 'copyPageMarkdown.label', message: 'Copy page as Markdown' })}
+      />
+    </div>
+  );
+}
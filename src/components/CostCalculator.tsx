@@ -0,0 +1,215 @@
+import React, { JSX, useState } from 'react';
+import clsx from 'clsx';
+import Translate, { translate } from '@docusaurus/Translate';
+import { FOUNDATION_MODELS, MODEL_PROVIDERS } from '../data/foundationModels';
+import { DAYS_PER_MONTH, applyCostMultiplier, estimateTokens, formatUsd, imageCost, tokenCost } from '../utils/cost';
+import './CostCalculator.css';
+
+type Props = {
+  /** `modelName` of the model selected initially. */
+  defaultModel?: string;
+};
+
+type InputMode = 'tokens' | 'prompt';
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  hint,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  hint?: string;
+}) {
+  return (
+    <label className="cost-calculator-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(event) => onChange(Math.max(0, Number(event.target.value) || 0))}
+      />
+      {hint && <small>{hint}</small>}
+    </label>
+  );
+}
+
+export default function CostCalculator({ defaultModel = 'gpt-5-mini' }: Props): JSX.Element {
+  const [modelName, setModelName] = useState(defaultModel);
+  const [inputMode, setInputMode] = useState<InputMode>('tokens');
+  const [promptTokens, setPromptTokens] = useState(1000);
+  const [promptText, setPromptText] = useState('');
+  const [completionTokens, setCompletionTokens] = useState(500);
+  const [images, setImages] = useState(1);
+  const [imageOption, setImageOption] = useState<string | null>(null);
+  const [multiplier, setMultiplier] = useState(0);
+  const [callsPerDay, setCallsPerDay] = useState(1000);
+
+  const model = FOUNDATION_MODELS.find((candidate) => candidate.modelName === modelName) ?? FOUNDATION_MODELS[0];
+  const { pricing } = model;
+  const inputTokens = inputMode === 'prompt' ? estimateTokens(promptText) : promptTokens;
+
+  // Image options differ per model, so fall back to the first one after switching models.
+  const imageOptions = pricing.kind === 'image' ? Object.keys(pricing.perImage) : [];
+  const selectedImageOption = imageOption && imageOptions.includes(imageOption) ? imageOption : imageOptions[0];
+  const cost =
+    pricing.kind === 'tokens'
+      ? tokenCost(pricing, inputTokens, completionTokens)
+      : imageCost(pricing, selectedImageOption, images);
+  const charge = applyCostMultiplier(cost, multiplier);
+  const callsPerMonth = callsPerDay * DAYS_PER_MONTH;
+
+  return (
+    <div className="cost-calculator">
+      <label className="cost-calculator-field">
+        <span>{translate({ id: 'costCalculator.model', message: 'Model' })}</span>
+        <select value={model.modelName} onChange={(event) => setModelName(event.target.value)}>
+          {Object.entries(MODEL_PROVIDERS).map(([provider, providerLabel]) => (
+            <optgroup key={provider} label={providerLabel}>
+              {FOUNDATION_MODELS.filter((candidate) => candidate.provider === provider).map((candidate) => (
+                <option key={candidate.modelName} value={candidate.modelName}>
+                  {candidate.displayName}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </label>
+
+      {pricing.kind === 'tokens' ? (
+        <>
+          <div className="cost-calculator-modes" role="tablist">
+            {(['tokens', 'prompt'] as InputMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                role="tab"
+                aria-selected={inputMode === mode}
+                className={clsx('cost-calculator-mode', inputMode === mode && 'cost-calculator-mode--active')}
+                onClick={() => setInputMode(mode)}
+              >
+                {mode === 'tokens'
+                  ? translate({ id: 'costCalculator.mode.tokens', message: 'Enter token counts' })
+                  : translate({ id: 'costCalculator.mode.prompt', message: 'Paste a prompt' })}
+              </button>
+            ))}
+          </div>
+          {inputMode === 'tokens' ? (
+            <NumberField
+              label={translate({ id: 'costCalculator.inputTokens', message: 'Input (prompt) tokens per call' })}
+              value={promptTokens}
+              onChange={setPromptTokens}
+            />
+          ) : (
+            <label className="cost-calculator-field">
+              <span>{translate({ id: 'costCalculator.prompt', message: 'Prompt' })}</span>
+              <textarea rows={5} value={promptText} onChange={(event) => setPromptText(event.target.value)} />
+              <small>
+                {translate(
+                  {
+                    id: 'costCalculator.promptEstimate',
+                    message: '≈ {tokens} tokens (rough estimate: about four characters per token)',
+                  },
+                  { tokens: inputTokens.toLocaleString() }
+                )}
+              </small>
+            </label>
+          )}
+          <NumberField
+            label={translate({ id: 'costCalculator.outputTokens', message: 'Output (completion) tokens per call' })}
+            value={completionTokens}
+            onChange={setCompletionTokens}
+            hint={translate({
+              id: 'costCalculator.outputTokens.hint',
+              message: 'Include reasoning tokens: providers bill them as output.',
+            })}
+          />
+        </>
+      ) : (
+        <>
+          <label className="cost-calculator-field">
+            <span>{translate({ id: 'costCalculator.imageOption', message: 'Quality and size' })}</span>
+            <select value={selectedImageOption} onChange={(event) => setImageOption(event.target.value)}>
+              {Object.entries(pricing.perImage).map(([option, price]) => (
+                <option key={option} value={option}>
+                  {translate(
+                    { id: 'costCalculator.imageOption.price', message: '{option} ({price} per image)' },
+                    { option, price: formatUsd(price) }
+                  )}
+                </option>
+              ))}
+            </select>
+          </label>
+          <NumberField
+            label={translate({ id: 'costCalculator.images', message: 'Images per call' })}
+            value={images}
+            onChange={setImages}
+          />
+        </>
+      )}
+
+      <NumberField
+        label={translate({ id: 'costCalculator.multiplier', message: 'Cost multiplier (%)' })}
+        value={multiplier}
+        onChange={setMultiplier}
+        hint={translate({
+          id: 'costCalculator.multiplier.hint',
+          message: "The endpoint's cost_multiplier_percentage. Leave at 0 if you don't resell usage.",
+        })}
+      />
+      <NumberField
+        label={translate({ id: 'costCalculator.callsPerDay', message: 'Calls per day' })}
+        value={callsPerDay}
+        onChange={setCallsPerDay}
+      />
+
+      <table className="cost-calculator-results">
+        <thead>
+          <tr>
+            <th></th>
+            <th>{translate({ id: 'costCalculator.perCall', message: 'Per call' })}</th>
+            <th>
+              {translate(
+                { id: 'costCalculator.perMonth', message: 'Per month ({calls} calls)' },
+                { calls: callsPerMonth.toLocaleString() }
+              )}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <th>
+              <Translate id="costCalculator.cost" values={{ field: <code>usage_charge.cost</code> }}>
+                {'Cost {field}'}
+              </Translate>
+            </th>
+            <td>{formatUsd(cost)}</td>
+            <td>{formatUsd(cost * callsPerMonth)}</td>
+          </tr>
+          <tr>
+            <th>
+              <Translate id="costCalculator.charge" values={{ field: <code>usage_charge.charge</code> }}>
+                {'Charge {field}'}
+              </Translate>
+            </th>
+            <td>{formatUsd(charge)}</td>
+            <td>{formatUsd(charge * callsPerMonth)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="cost-calculator-note">
+        {translate(
+          {
+            id: 'costCalculator.note',
+            message:
+              'Estimates use the {provider} list prices bundled with the docs and a {days}-day month. Everything is computed in your browser; nothing is sent anywhere.',
+          },
+          { provider: MODEL_PROVIDERS[model.provider], days: DAYS_PER_MONTH }
+        )}
+      </p>
+    </div>
+  );
+}
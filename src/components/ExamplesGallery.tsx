@@ -0,0 +1,156 @@
+import React, { JSX, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import Translate, { translate } from '@docusaurus/Translate';
+import CodeBlock from '@theme/CodeBlock';
+import InlineMarkdown from './InlineMarkdown';
+import { MODEL_PROVIDERS } from '../data/foundationModels';
+import { EXAMPLE_TAGS, RUNNABLE_EXAMPLES, type ExampleTag, type RunnableExample } from '../data/examples';
+import './ExamplesGallery.css';
+
+type SourceState = { status: 'loading' } | { status: 'loaded'; code: string } | { status: 'missing' };
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((candidate) => candidate !== value) : [...values, value];
+}
+
+function matchesQuery(example: RunnableExample, query: string): boolean {
+  const haystack = [example.filename, example.description, example.lookFor, ...example.tags].join(' ').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((term) => haystack.includes(term));
+}
+
+// Sources are bundled with the site (`plugins/example-sources`), and loaded on first expand.
+function ExampleSource({ example }: { example: RunnableExample }) {
+  const [source, setSource] = useState<SourceState | null>(null);
+
+  const onToggle = (event: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (!event.currentTarget.open || source) {
+      return;
+    }
+    setSource({ status: 'loading' });
+    import('@generated/dhenara-example-sources/default/example-sources.json')
+      .then(({ default: sources }) => {
+        const code = sources[example.filename];
+        setSource(code === undefined ? { status: 'missing' } : { status: 'loaded', code });
+      })
+      .catch(() => setSource({ status: 'missing' }));
+  };
+
+  return (
+    <details className="examples-gallery-source" onToggle={onToggle}>
+      <summary>{translate({ id: 'examplesGallery.showSource', message: 'Show source' })}</summary>
+      {source?.status === 'loading' && <p>{translate({ id: 'examplesGallery.loading', message: 'Loading…' })}</p>}
+      {source?.status === 'missing' && (
+        <p>
+          <Translate
+            id="examplesGallery.notBundled"
+            values={{
+              github: (
+                <a href={example.source}>
+                  {translate({ id: 'examplesGallery.notBundled.github', message: 'view it on GitHub' })}
+                </a>
+              ),
+            }}
+          >
+            {'The script is not bundled with this build of the docs; {github}.'}
+          </Translate>
+        </p>
+      )}
+      {source?.status === 'loaded' && (
+        <CodeBlock language="python" title={example.filename}>
+          {source.code}
+        </CodeBlock>
+      )}
+    </details>
+  );
+}
+
+function ExampleCard({ example }: { example: RunnableExample }) {
+  return (
+    <article className="examples-gallery-card">
+      <header className="examples-gallery-card-header">
+        <a href={example.source}>
+          <code>{example.filename}</code>
+        </a>
+        <span className="examples-gallery-providers">
+          {example.providers.map((provider) => MODEL_PROVIDERS[provider]).join(' · ')}
+        </span>
+      </header>
+      <p className="examples-gallery-description">
+        <InlineMarkdown text={example.description} />
+      </p>
+      <p className="examples-gallery-look-for">
+        {translate({ id: 'examplesGallery.lookFor', message: 'Look for:' })} <InlineMarkdown text={example.lookFor} />
+      </p>
+      {example.tags.length > 0 && (
+        <div className="examples-gallery-tags">
+          {example.tags.map((tag) => (
+            <span key={tag} className="examples-gallery-tag">
+              {EXAMPLE_TAGS[tag]}
+            </span>
+          ))}
+        </div>
+      )}
+      <ExampleSource example={example} />
+    </article>
+  );
+}
+
+type Props = {
+  /**
+   * Shows only the examples carrying all of these tags, without the filter bar; used to embed a slice of the gallery
+   * in a guide, e.g. `<ExamplesGallery tags={['tools']} />`.
+   */
+  tags?: ExampleTag[];
+};
+
+/** The runnable examples of the dhenara-ai package, filterable by tag and searchable. */
+export default function ExamplesGallery({ tags: sliceTags }: Props): JSX.Element {
+  const [tags, setTags] = useState<ExampleTag[]>([]);
+  const [query, setQuery] = useState('');
+
+  const requiredTags = sliceTags ?? tags;
+  const examples = useMemo(
+    () =>
+      RUNNABLE_EXAMPLES.filter(
+        (example) => requiredTags.every((tag) => example.tags.includes(tag)) && matchesQuery(example, query)
+      ),
+    [requiredTags, query]
+  );
+
+  return (
+    <div className="examples-gallery">
+      {!sliceTags && (
+        <div className="examples-gallery-filters">
+          <input
+            type="search"
+            className="examples-gallery-search"
+            placeholder={translate({ id: 'examplesGallery.search', message: 'Search examples…' })}
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+          />
+          {(Object.keys(EXAMPLE_TAGS) as ExampleTag[]).map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className={clsx('examples-gallery-chip', tags.includes(tag) && 'examples-gallery-chip--active')}
+              onClick={() => setTags(toggle(tags, tag))}
+            >
+              {EXAMPLE_TAGS[tag]}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="examples-gallery-grid">
+        {examples.map((example) => (
+          <ExampleCard key={example.filename} example={example} />
+        ))}
+      </div>
+      {examples.length === 0 && (
+        <p>{translate({ id: 'examplesGallery.empty', message: 'No examples match the selected filters.' })}</p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { JSX } from 'react';
 import HomepageHero from './HomepageHero';
+import HomepageWhatsNew from './HomepageWhatsNew';
 import HomepageFeatures from './HomepageFeatures';
 import HomepageQuickStart from './HomepageQuickStart';
 import HomepageFooterCTA from './HomepageFooterCTA';
@@ -8,6 +9,7 @@ export default function HomepageContent(): JSX.Element {
   return (
     <main>
       <HomepageHero />
+      <HomepageWhatsNew />
       <HomepageFeatures />
       <HomepageQuickStart />
       <HomepageFooterCTA />
@@ -1,21 +1,62 @@
 import React, { JSX } from 'react';
+import clsx from 'clsx';
 import Link from '@docusaurus/Link';
+import Translate from '@docusaurus/Translate';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import { ACTIVE_PRODUCTS, DEPRECATED_PRODUCTS, PRODUCTS, type Product } from '../data/products';
+import { translatedProductLabel } from '../utils/translateProduct';
 import './HomepageFooterCTA.css';
 
+function useListNames(): (products: Product[]) => string {
+  const { i18n } = useDocusaurusContext();
+  const list = new Intl.ListFormat(i18n.currentLocale, { type: 'conjunction' });
+  return (products) => list.format(products.map(({ name }) => name));
+}
+
 export default function HomepageFooterCTA(): JSX.Element {
+  const listNames = useListNames();
+
   return (
     <section className="footer-cta">
       <div className="container">
         <div className="footer-cta-content">
-          <h2>Ready to Build with Dhenara?</h2>
-          <p>Start with Dhenara AI. Legacy Agent DSL docs remain available for existing users.</p>
+          <h2>
+            <Translate id="homepage.footerCta.title">Ready to Build with Dhenara?</Translate>
+          </h2>
+          <p>
+            <Translate id="homepage.footerCta.active" values={{ names: listNames(ACTIVE_PRODUCTS) }}>
+              {'Start with {names}.'}
+            </Translate>
+            {DEPRECATED_PRODUCTS.length > 0 && (
+              <>
+                {' '}
+                <Translate id="homepage.footerCta.deprecated" values={{ names: listNames(DEPRECATED_PRODUCTS) }}>
+                  {'Legacy {names} docs remain available for existing users.'}
+                </Translate>
+              </>
+            )}
+          </p>
           <div className="footer-cta-buttons">
-            <Link className="button button--primary button--lg" to="/dhenara-ai/introduction">
-              Explore Dhenara AI
-            </Link>
-            <Link className="button button--outline button--secondary button--lg" to="/dhenara-agent/introduction">
-              Agent DSL Docs (Deprecated)
-            </Link>
+            {PRODUCTS.map((product) => (
+              <Link
+                key={product.id}
+                className={clsx(
+                  'button button--lg',
+                  product.status === 'active' ? 'button--primary' : 'button--outline button--secondary'
+                )}
+                to={product.routes.introduction}
+              >
+                {product.status === 'active' ? (
+                  <Translate id="homepage.footerCta.explore" values={{ name: product.name }}>
+                    {'Explore {name}'}
+                  </Translate>
+                ) : (
+                  <Translate id="homepage.footerCta.deprecatedDocs" values={{ label: translatedProductLabel(product) }}>
+                    {'{label} Docs'}
+                  </Translate>
+                )}
+              </Link>
+            ))}
           </div>
         </div>
       </div>
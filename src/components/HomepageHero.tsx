@@ -1,30 +1,55 @@
 import React, { JSX } from 'react';
-import clsx from 'clsx';
 import Link from '@docusaurus/Link';
-import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import Translate from '@docusaurus/Translate';
+import { DEPRECATED_PRODUCTS, PRIMARY_PRODUCT } from '../data/products';
+import { translatedProductLabel } from '../utils/translateProduct';
 import './HomepageHero.css';
 
 export default function HomepageHero(): JSX.Element {
-  const { siteConfig } = useDocusaurusContext();
-
   return (
     <header className="hero-banner">
       <div className="container">
         <div className="hero-content">
-          <h1 className="hero-title">Dhenara Documentation</h1>
-          <p className="hero-subtitle">Build powerful AI applications with Dhenara's open-source frameworks</p>
+          <h1 className="hero-title">
+            <Translate id="homepage.hero.title">Dhenara Documentation</Translate>
+          </h1>
+          <p className="hero-subtitle">
+            <Translate id="homepage.hero.subtitle">
+              Build powerful AI applications with Dhenara's open-source frameworks
+            </Translate>
+          </p>
           <div className="hero-buttons">
-            <Link className="button button--primary button--lg" to="/dhenara-ai/getting-started/installation">
-              Get Started
+            <Link className="button button--primary button--lg" to={PRIMARY_PRODUCT.routes.installation}>
+              <Translate id="homepage.hero.getStarted">Get Started</Translate>
             </Link>
-            <Link className="button button--secondary button--lg" to="/dhenara-ai/introduction">
-              Explore Dhenara AI
+            <Link className="button button--secondary button--lg" to={PRIMARY_PRODUCT.routes.introduction}>
+              <Translate id="homepage.hero.explore" values={{ name: PRIMARY_PRODUCT.name }}>
+                {'Explore {name}'}
+              </Translate>
             </Link>
           </div>
-          <div className="hero-deprecated-link">
-            Looking for the old agent framework?{' '}
-            <Link to="/dhenara-agent/introduction">Agent DSL docs (Deprecated)</Link>
-          </div>
+          {DEPRECATED_PRODUCTS.map((product) => (
+            <div key={product.id} className="hero-deprecated-link">
+              <Translate
+                id="homepage.hero.deprecatedProduct"
+                values={{
+                  name: product.name,
+                  link: (
+                    <Link to={product.routes.introduction}>
+                      <Translate
+                        id="homepage.hero.deprecatedProduct.link"
+                        values={{ label: translatedProductLabel(product) }}
+                      >
+                        {'{label} docs'}
+                      </Translate>
+                    </Link>
+                  ),
+                }}
+              >
+                {'Still using {name}? {link}'}
+              </Translate>
+            </div>
+          ))}
         </div>
         <div className="hero-graphic">
           <div className="hero-graphic-inner">
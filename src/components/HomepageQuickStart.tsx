@@ -1,57 +1,89 @@
 import React, { JSX } from 'react';
 import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import InstallCommandBuilder from './InstallCommandBuilder';
+import { ACTIVE_PRODUCTS, DEPRECATED_PRODUCTS, PRIMARY_PRODUCT, type ProductLink } from '../data/products';
+import { translatedHighlight, translatedProductLabel } from '../utils/translateProduct';
 import './HomepageQuickStart.css';
 
+// Installation first, then each active product's highlighted guides.
+function quickstartLinks(): ProductLink[] {
+  return ACTIVE_PRODUCTS.flatMap((product) => [
+    {
+      title: translate(
+        { id: 'homepage.quickStart.installation.title', message: '{name} Installation' },
+        { name: product.name }
+      ),
+      description:
+        product === PRIMARY_PRODUCT
+          ? translate(
+              {
+                id: 'homepage.quickStart.installation.recommended',
+                message: 'Recommended: set up the {packageName} package.',
+              },
+              { packageName: product.packageName }
+            )
+          : translate(
+              { id: 'homepage.quickStart.installation.description', message: 'Set up the {packageName} package.' },
+              { packageName: product.packageName }
+            ),
+      to: product.routes.installation,
+    },
+    ...product.highlights.map((link) => translatedHighlight(product, link)),
+  ]);
+}
+
 export default function HomepageQuickStart(): JSX.Element {
   return (
     <section className="quickstart">
       <div className="container">
         <div className="row">
           <div className="col col--6 quickstart-content">
-            <h2>Get Started Quickly</h2>
+            <h2>
+              <Translate id="homepage.quickStart.title">Get Started Quickly</Translate>
+            </h2>
             <p>
-              Dhenara makes it easy to build AI-powered applications. Start with Dhenara AI for provider-agnostic model
-              interactions — then jump into the advanced recipes.
+              <Translate id="homepage.quickStart.intro" values={{ name: PRIMARY_PRODUCT.name }}>
+                {
+                  'Dhenara makes it easy to build AI-powered applications. Start with {name} for provider-agnostic model interactions — then jump into the guides.'
+                }
+              </Translate>
             </p>
             <div className="quickstart-links">
-              <Link className="quickstart-card" to="/dhenara-ai/getting-started/installation">
-                <div className="quickstart-card-content">
-                  <h3>Dhenara AI Installation</h3>
-                  <p>Recommended: set up the core AI package for model interactions.</p>
-                </div>
-                <div className="quickstart-arrow">→</div>
-              </Link>
-              <Link className="quickstart-card" to="/dhenara-ai/guides/advanced-recipes">
-                <div className="quickstart-card-content">
-                  <h3>Advanced Recipes</h3>
-                  <p>Streaming + structured output + tools + artifacts — the “good stuff”.</p>
-                </div>
-                <div className="quickstart-arrow">→</div>
-              </Link>
+              {quickstartLinks().map(({ title, description, to }) => (
+                <Link key={to} className="quickstart-card" to={to}>
+                  <div className="quickstart-card-content">
+                    <h3>{title}</h3>
+                    <p>{description}</p>
+                  </div>
+                  <div className="quickstart-arrow">→</div>
+                </Link>
+              ))}
             </div>
 
-            <div style={{ marginTop: '0.75rem', opacity: 0.8 }}>
-              <Link to="/dhenara-agent/getting-started/installation">Agent DSL (Deprecated)</Link>
-              {' — legacy docs for existing users.'}
-            </div>
+            {DEPRECATED_PRODUCTS.map((product) => (
+              <div key={product.id} style={{ marginTop: '0.75rem', opacity: 0.8 }}>
+                <Translate
+                  id="homepage.quickStart.deprecatedProduct"
+                  values={{
+                    link: <Link to={product.routes.installation}>{translatedProductLabel(product)}</Link>,
+                  }}
+                >
+                  {'{link} — legacy docs for existing users.'}
+                </Translate>
+              </div>
+            ))}
           </div>
           <div className="col col--6 quickstart-code">
             <div className="code-header">
-              <div className="code-pill">pip install</div>
+              <div className="code-pill">
+                <Translate id="homepage.quickStart.installPill" values={{ name: PRIMARY_PRODUCT.name }}>
+                  {'Install {name}'}
+                </Translate>
+              </div>
             </div>
             <div className="code-block">
-              <pre>
-                <code>
-                  # Recommended for most applications
-                  <br />
-                  pip install dhenara-ai
-                  <br />
-                  <br />
-                  # Optional (deprecated): Agent DSL framework
-                  <br />
-                  pip install dhenara-agent
-                </code>
-              </pre>
+              <InstallCommandBuilder />
             </div>
           </div>
         </div>
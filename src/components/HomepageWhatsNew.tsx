@@ -0,0 +1,34 @@
+import React, { JSX } from 'react';
+import Link from '@docusaurus/Link';
+import Translate from '@docusaurus/Translate';
+import { PRODUCTS } from '../data/products';
+import { LATEST_RELEASE, RELEASE_NOTES_PRODUCT, releaseNotesRoute } from '../data/releases';
+import './HomepageWhatsNew.css';
+
+const PRODUCT = PRODUCTS.find(({ id }) => id === RELEASE_NOTES_PRODUCT)!;
+
+// The latest release of `src/data/releases.ts`, between the hero and the feature cards.
+export default function HomepageWhatsNew(): JSX.Element | null {
+  if (!LATEST_RELEASE) {
+    return null;
+  }
+
+  return (
+    <section className="whats-new">
+      <div className="container whats-new-content">
+        <span className="whats-new-pill">
+          <Translate id="homepage.whatsNew.label">What's new</Translate>
+        </span>
+        <p className="whats-new-summary">
+          <strong>
+            {PRODUCT.name} {LATEST_RELEASE.version}
+          </strong>{' '}
+          — {LATEST_RELEASE.summary}
+        </p>
+        <Link className="whats-new-link" to={releaseNotesRoute(LATEST_RELEASE.version)}>
+          <Translate id="homepage.whatsNew.link">Release notes →</Translate>
+        </Link>
+      </div>
+    </section>
+  );
+}
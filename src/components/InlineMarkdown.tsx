@@ -0,0 +1,6 @@
+import React, { JSX } from 'react';
+
+/** Renders the `code` spans of a data string, which are written in Markdown backticks. */
+export default function InlineMarkdown({ text }: { text: string }): JSX.Element {
+  return <>{text.split('`').map((part, index) => (index % 2 === 1 ? <code key={index}>{part}</code> : part))}</>;
+}
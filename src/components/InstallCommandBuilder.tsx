@@ -0,0 +1,79 @@
+import React, { JSX, useState } from 'react';
+import clsx from 'clsx';
+import CodeBlock from '@theme/CodeBlock';
+import Tabs from '@theme/Tabs';
+import TabItem from '@theme/TabItem';
+import Translate, { translate } from '@docusaurus/Translate';
+import { useVersions } from '@docusaurus/plugin-content-docs/client';
+import { MODEL_PROVIDERS, type ModelProvider } from '../data/foundationModels';
+import { PRIMARY_PRODUCT } from '../data/products';
+import { INSTALLERS, envTemplate, installCommand, type Installer } from '../utils/install';
+import './InstallCommandBuilder.css';
+
+// Shared with any installer tabs in the docs, so the reader's package manager is remembered across the site.
+const INSTALLER_TABS_GROUP_ID = 'python-installer';
+
+const CURRENT_VERSION_NAME = 'current';
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((candidate) => candidate !== value) : [...values, value];
+}
+
+/** Install command for the primary product, for the reader's package manager, providers and version. */
+export default function InstallCommandBuilder(): JSX.Element {
+  const [providers, setProviders] = useState<ModelProvider[]>(['openai']);
+  const [version, setVersion] = useState('');
+  // Only released versions can be pinned; the unreleased "next" docs are not on PyPI.
+  const versions = useVersions(PRIMARY_PRODUCT.docsPluginId ?? 'default').filter(
+    ({ name }) => name !== CURRENT_VERSION_NAME
+  );
+
+  const spec = { packageName: PRIMARY_PRODUCT.packageName, providers, version: version || undefined };
+
+  return (
+    <div className="install-builder">
+      <div className="install-builder-options">
+        <span className="install-builder-label">
+          <Translate id="installBuilder.providers">Providers</Translate>
+        </span>
+        {(Object.keys(MODEL_PROVIDERS) as ModelProvider[]).map((provider) => (
+          <button
+            key={provider}
+            type="button"
+            className={clsx('install-builder-chip', providers.includes(provider) && 'install-builder-chip--active')}
+            onClick={() => setProviders(toggle(providers, provider))}
+          >
+            {MODEL_PROVIDERS[provider]}
+          </button>
+        ))}
+      </div>
+      <div className="install-builder-options">
+        <label className="install-builder-label" htmlFor="install-builder-version">
+          <Translate id="installBuilder.version">Version</Translate>
+        </label>
+        <select id="install-builder-version" value={version} onChange={(event) => setVersion(event.target.value)}>
+          <option value="">{translate({ id: 'installBuilder.version.latest', message: 'Latest' })}</option>
+          {versions.map(({ name }) => (
+            <option key={name} value={name}>
+              {name}.x
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Tabs groupId={INSTALLER_TABS_GROUP_ID} className="install-builder-tabs">
+        {(Object.keys(INSTALLERS) as Installer[]).map((installer) => (
+          <TabItem key={installer} value={installer} label={INSTALLERS[installer]}>
+            <CodeBlock language="bash">{installCommand(installer, spec)}</CodeBlock>
+          </TabItem>
+        ))}
+      </Tabs>
+
+      {providers.length > 0 && (
+        <CodeBlock language="dotenv" title=".env">
+          {envTemplate(providers)}
+        </CodeBlock>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import React, { JSX } from 'react';
+import Head from '@docusaurus/Head';
+import type { JsonLd as JsonLdData } from '../utils/structuredData';
+
+type Props = {
+  data: JsonLdData;
+};
+
+/** Adds a schema.org JSON-LD script to the page head. */
+export default function JsonLd({ data }: Props): JSX.Element {
+  return (
+    <Head>
+      {/* `<` is escaped so that code samples cannot close the script element. */}
+      <script type="application/ld+json">{JSON.stringify(data).replace(/</g, '\\u003c')}</script>
+    </Head>
+  );
+}
@@ -0,0 +1,180 @@
+import React, { JSX, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { translate } from '@docusaurus/Translate';
+import CopyButton from './CopyButton';
+import {
+  FOUNDATION_MODELS,
+  MODEL_CAPABILITIES,
+  MODEL_PROVIDERS,
+  modelImportStatement,
+  type FoundationModelInfo,
+  type ModelCapability,
+  type ModelProvider,
+} from '../data/foundationModels';
+import './ModelCatalog.css';
+
+type SortKey = 'displayName' | 'provider' | 'contextWindow' | 'maxOutputTokens' | 'inputCost' | 'outputCost';
+
+type SortState = { key: SortKey; ascending: boolean };
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'displayName', label: translate({ id: 'modelCatalog.column.model', message: 'Model' }) },
+  { key: 'provider', label: translate({ id: 'modelCatalog.column.provider', message: 'Provider' }) },
+  { key: 'contextWindow', label: translate({ id: 'modelCatalog.column.context', message: 'Context' }) },
+  { key: 'maxOutputTokens', label: translate({ id: 'modelCatalog.column.maxOutput', message: 'Max output' }) },
+  { key: 'inputCost', label: translate({ id: 'modelCatalog.column.inputCost', message: 'Input $/1M' }) },
+  { key: 'outputCost', label: translate({ id: 'modelCatalog.column.outputCost', message: 'Output $/1M' }) },
+];
+
+function sortValue(model: FoundationModelInfo, key: SortKey): string | number | undefined {
+  switch (key) {
+    case 'inputCost':
+      return model.pricing.kind === 'tokens' ? model.pricing.inputPerMillion : undefined;
+    case 'outputCost':
+      return model.pricing.kind === 'tokens' ? model.pricing.outputPerMillion : undefined;
+    case 'provider':
+      return MODEL_PROVIDERS[model.provider];
+    default:
+      return model[key];
+  }
+}
+
+// Models without a value for the sort key (e.g. image models by token cost) always sort last.
+function compareModels(a: FoundationModelInfo, b: FoundationModelInfo, { key, ascending }: SortState): number {
+  const [left, right] = [sortValue(a, key), sortValue(b, key)];
+  if (left === undefined || right === undefined) {
+    return left === right ? 0 : left === undefined ? 1 : -1;
+  }
+  const order = typeof left === 'number' ? left - (right as number) : left.localeCompare(right as string);
+  return ascending ? order : -order;
+}
+
+function formatTokens(tokens?: number): string {
+  if (!tokens) {
+    return '—';
+  }
+  return tokens >= 1_000_000 ? `${+(tokens / 1_000_000).toFixed(2)}M` : `${Math.round(tokens / 1000)}K`;
+}
+
+function formatPrice(model: FoundationModelInfo, side: 'input' | 'output'): string {
+  const { pricing } = model;
+  if (pricing.kind === 'tokens') {
+    return `$${side === 'input' ? pricing.inputPerMillion : pricing.outputPerMillion}`;
+  }
+  if (side === 'input') {
+    return '—';
+  }
+  const prices = Object.values(pricing.perImage);
+  const [min, max] = [Math.min(...prices), Math.max(...prices)];
+  return translate(
+    { id: 'modelCatalog.perImage', message: '{price} / image' },
+    { price: `$${min}${max !== min ? `–$${max}` : ''}` }
+  );
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((candidate) => candidate !== value) : [...values, value];
+}
+
+export default function ModelCatalog(): JSX.Element {
+  const [providers, setProviders] = useState<ModelProvider[]>([]);
+  const [capabilities, setCapabilities] = useState<ModelCapability[]>([]);
+  const [sort, setSort] = useState<SortState>({ key: 'provider', ascending: true });
+
+  const models = useMemo(
+    () =>
+      FOUNDATION_MODELS.filter(
+        (model) =>
+          (providers.length === 0 || providers.includes(model.provider)) &&
+          capabilities.every((capability) => model.capabilities.includes(capability))
+      ).sort((a, b) => compareModels(a, b, sort)),
+    [providers, capabilities, sort]
+  );
+
+  const onSort = (key: SortKey) =>
+    setSort((current) => ({ key, ascending: current.key === key ? !current.ascending : true }));
+
+  return (
+    <div className="model-catalog">
+      <div className="model-catalog-filters">
+        <span className="model-catalog-filter-label">
+          {translate({ id: 'modelCatalog.column.provider', message: 'Provider' })}
+        </span>
+        {(Object.keys(MODEL_PROVIDERS) as ModelProvider[]).map((provider) => (
+          <button
+            key={provider}
+            type="button"
+            className={clsx('model-catalog-chip', providers.includes(provider) && 'model-catalog-chip--active')}
+            onClick={() => setProviders(toggle(providers, provider))}
+          >
+            {MODEL_PROVIDERS[provider]}
+          </button>
+        ))}
+      </div>
+      <div className="model-catalog-filters">
+        <span className="model-catalog-filter-label">
+          {translate({ id: 'modelCatalog.column.capabilities', message: 'Capabilities' })}
+        </span>
+        {(Object.keys(MODEL_CAPABILITIES) as ModelCapability[]).map((capability) => (
+          <button
+            key={capability}
+            type="button"
+            className={clsx('model-catalog-chip', capabilities.includes(capability) && 'model-catalog-chip--active')}
+            onClick={() => setCapabilities(toggle(capabilities, capability))}
+          >
+            {MODEL_CAPABILITIES[capability]}
+          </button>
+        ))}
+      </div>
+
+      <div className="model-catalog-table-wrapper">
+        <table className="model-catalog-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} aria-sort={sort.key === key ? (sort.ascending ? 'ascending' : 'descending') : undefined}>
+                  <button type="button" className="model-catalog-sort" onClick={() => onSort(key)}>
+                    {label}
+                    {sort.key === key && (sort.ascending ? ' ▲' : ' ▼')}
+                  </button>
+                </th>
+              ))}
+              <th>{translate({ id: 'modelCatalog.column.modalities', message: 'Modalities' })}</th>
+              <th>{translate({ id: 'modelCatalog.column.capabilities', message: 'Capabilities' })}</th>
+              <th>{translate({ id: 'modelCatalog.column.constant', message: 'Python constant' })}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((model) => (
+              <tr key={`${model.module}.${model.constant}`}>
+                <td>
+                  <strong>{model.displayName}</strong>
+                  <div className="model-catalog-model-name">{model.modelName}</div>
+                </td>
+                <td>{MODEL_PROVIDERS[model.provider]}</td>
+                <td>{formatTokens(model.contextWindow)}</td>
+                <td>{formatTokens(model.maxOutputTokens)}</td>
+                <td>{formatPrice(model, 'input')}</td>
+                <td>{formatPrice(model, 'output')}</td>
+                <td>
+                  {model.inputModalities.join(', ')} → {model.outputModalities.join(', ')}
+                </td>
+                <td>{model.capabilities.map((capability) => MODEL_CAPABILITIES[capability]).join(', ')}</td>
+                <td>
+                  <code>{model.constant}</code>{' '}
+                  <CopyButton
+                    text={modelImportStatement(model)}
+                    label={translate({ id: 'modelCatalog.copyImport', message: 'Copy import' })}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {models.length === 0 && (
+        <p>{translate({ id: 'modelCatalog.empty', message: 'No models match the selected filters.' })}</p>
+      )}
+    </div>
+  );
+}
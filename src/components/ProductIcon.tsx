@@ -0,0 +1,92 @@
+import React, { JSX } from 'react';
+import type { ProductIconKey } from '../data/products';
+
+// Stroke icons drawn on a 24×24 grid; the registry in `src/data/products.ts` refers to them by key.
+const ICON_SHAPES: Record<ProductIconKey, JSX.Element> = {
+  'unified-api': (
+    <>
+      <path d="M4 11a9 9 0 0 1 9 9" />
+      <path d="M4 4a16 16 0 0 1 16 16" />
+      <circle cx="5" cy="19" r="2" />
+      <circle cx="12" cy="12" r="3" />
+      <circle cx="19" cy="5" r="2" />
+    </>
+  ),
+  streaming: <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z" />,
+  usage: (
+    <>
+      <rect x="3" y="3" width="18" height="18" rx="2" />
+      <path d="M3 9h18" />
+      <path d="M9 21V9" />
+      <path d="M15 12v3" />
+      <path d="M15 18v.01" />
+    </>
+  ),
+  'structured-output': (
+    <>
+      <path d="M8 6h13" />
+      <path d="M8 12h13" />
+      <path d="M8 18h13" />
+      <path d="M3 6h.01" />
+      <path d="M3 12h.01" />
+      <path d="M3 18h.01" />
+    </>
+  ),
+  artifacts: (
+    <>
+      <path d="M10 2h4" />
+      <path d="M12 14v7" />
+      <path d="M8 21h8" />
+      <path d="M12 2a7 7 0 0 1 7 7c0 2.2-1 4-2.6 5.3-.6.5-1.4.7-2.2.7H9.8c-.8 0-1.6-.2-2.2-.7C6 13 5 11.2 5 9a7 7 0 0 1 7-7z" />
+    </>
+  ),
+  'agent-dsl': (
+    <>
+      <rect x="3" y="3" width="7" height="7" />
+      <rect x="14" y="3" width="7" height="7" />
+      <rect x="14" y="14" width="7" height="7" />
+      <rect x="3" y="14" width="7" height="7" />
+      <path d="M10 7h4M7 10v4M17 10v4M10 17h4" />
+    </>
+  ),
+  observability: (
+    <>
+      <circle cx="12" cy="12" r="10" />
+      <circle cx="12" cy="12" r="2" />
+      <path d="M12 8v-2" />
+      <path d="M12 18v-2" />
+      <path d="M8 12h-2" />
+      <path d="M18 12h-2" />
+    </>
+  ),
+  templates: (
+    <>
+      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+      <polyline points="14 2 14 8 20 8" />
+      <line x1="9" y1="15" x2="15" y2="15" />
+      <line x1="9" y1="11" x2="12" y2="11" />
+    </>
+  ),
+};
+
+type Props = {
+  icon: ProductIconKey;
+};
+
+export default function ProductIcon({ icon }: Props): JSX.Element {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      width="24"
+      height="24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {ICON_SHAPES[icon]}
+    </svg>
+  );
+}
@@ -0,0 +1,60 @@
+import React, { JSX, ReactElement, ReactNode } from 'react';
+import { translate } from '@docusaurus/Translate';
+import Tabs from '@theme/Tabs';
+import TabItem from '@theme/TabItem';
+import { MODEL_PROVIDERS, type ModelProvider } from '../data/foundationModels';
+import { PROVIDER_APIS } from '../data/providers';
+import './ProviderTabs.css';
+
+// Every provider tab group shares this group id, so picking a provider switches all groups on the page and is
+// remembered in local storage across the site. `?provider=anthropic` selects a tab from a link.
+const PROVIDER_TABS_GROUP_ID = 'provider';
+
+type ProviderTabProps = {
+  provider: ModelProvider;
+  children: ReactNode;
+};
+
+/** One provider's variant of a snippet; only meaningful as a child of `ProviderTabs`. */
+export function ProviderTab({ children }: ProviderTabProps): JSX.Element {
+  return <>{children}</>;
+}
+
+function ProviderEnvVars({ provider }: { provider: ModelProvider }) {
+  return (
+    <div className="provider-tabs-env">
+      <span>{translate({ id: 'providerTabs.environment', message: 'Environment:' })}</span>
+      {PROVIDER_APIS[provider].envVars.map(({ name, description }) => (
+        <code key={name} title={description}>
+          {name}
+        </code>
+      ))}
+    </div>
+  );
+}
+
+type Props = {
+  children: ReactNode;
+};
+
+export default function ProviderTabs({ children }: Props): JSX.Element {
+  const tabs = React.Children.toArray(children).filter(
+    (child): child is ReactElement<ProviderTabProps> => React.isValidElement(child) && child.type === ProviderTab
+  );
+  for (const { props } of tabs) {
+    if (!(props.provider in MODEL_PROVIDERS)) {
+      throw new Error(`<ProviderTab> has an unknown provider "${props.provider}".`);
+    }
+  }
+
+  return (
+    <Tabs groupId={PROVIDER_TABS_GROUP_ID} queryString className="provider-tabs">
+      {tabs.map(({ props }) => (
+        <TabItem key={props.provider} value={props.provider} label={MODEL_PROVIDERS[props.provider]}>
+          <ProviderEnvVars provider={props.provider} />
+          {props.children}
+        </TabItem>
+      ))}
+    </Tabs>
+  );
+}
@@ -0,0 +1,48 @@
+import React, { JSX, useEffect } from 'react';
+import Head from '@docusaurus/Head';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import { useHistory, useLocation } from '@docusaurus/router';
+import useBaseUrl from '@docusaurus/useBaseUrl';
+import Layout from '@theme/Layout';
+
+type Props = {
+  /** Site path of the new page, without the base URL. */
+  to: string;
+};
+
+/**
+ * Route component of the retired routes registered by `plugins/redirects`. The static page redirects with a `refresh`
+ * meta tag; in the app, and once hydrated, it replaces the history entry and keeps the URL's query and hash.
+ */
+export default function RedirectPage({ to }: Props): JSX.Element {
+  const target = useBaseUrl(to);
+  const absoluteTarget = useBaseUrl(to, { absolute: true });
+  const canonical = absoluteTarget.split('#')[0];
+  const history = useHistory();
+  const { search, hash } = useLocation();
+
+  useEffect(() => {
+    // A target anchor wins over the hash of the old URL, which pointed into the retired page.
+    const [pathname, anchor] = target.split('#');
+    history.replace(`${pathname}${search}${anchor ? `#${anchor}` : hash}`);
+  }, [history, target, search, hash]);
+
+  return (
+    <Layout title={translate({ id: 'redirect.title', message: 'Page moved' })}>
+      <Head>
+        <meta httpEquiv="refresh" content={`0; url=${target}`} />
+        <meta name="robots" content="noindex" />
+        <link rel="canonical" href={canonical} />
+      </Head>
+      <main className="container margin-vert--xl">
+        <h1>{translate({ id: 'redirect.heading', message: 'This page has moved' })}</h1>
+        <p>
+          <Translate id="redirect.body" values={{ target: <Link to={to}>{absoluteTarget}</Link> }}>
+            {'It now lives at {target}.'}
+          </Translate>
+        </p>
+      </main>
+    </Layout>
+  );
+}
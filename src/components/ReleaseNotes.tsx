@@ -0,0 +1,115 @@
+import React, { JSX } from 'react';
+import Link from '@docusaurus/Link';
+import Heading from '@theme/Heading';
+import Translate, { translate } from '@docusaurus/Translate';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import { useVersions } from '@docusaurus/plugin-content-docs/client';
+import InlineMarkdown from './InlineMarkdown';
+import { PRODUCTS } from '../data/products';
+import {
+  RELEASES,
+  RELEASE_NOTES_PRODUCT,
+  releaseAnchor,
+  releaseDocsVersion,
+  type Release,
+  type ReleaseChange,
+  type ReleaseChangeType,
+} from '../data/releases';
+import './ReleaseNotes.css';
+
+const PRODUCT = PRODUCTS.find(({ id }) => id === RELEASE_NOTES_PRODUCT)!;
+
+const CHANGE_TYPES: ReleaseChangeType[] = ['added', 'changed', 'deprecated', 'removed', 'fixed'];
+
+function changeTypeLabel(type: ReleaseChangeType): string {
+  switch (type) {
+    case 'added':
+      return translate({ id: 'releaseNotes.type.added', message: 'Added' });
+    case 'changed':
+      return translate({ id: 'releaseNotes.type.changed', message: 'Changed' });
+    case 'deprecated':
+      return translate({ id: 'releaseNotes.type.deprecated', message: 'Deprecated' });
+    case 'removed':
+      return translate({ id: 'releaseNotes.type.removed', message: 'Removed' });
+    case 'fixed':
+      return translate({ id: 'releaseNotes.type.fixed', message: 'Fixed' });
+  }
+}
+
+// The path of a change's doc in the docs version of its release (`plugins/docs-checks` checks that it exists there).
+function useDocPath(release: Release): (docId: string) => string | undefined {
+  const versions = useVersions(PRODUCT.docsPluginId);
+  const version =
+    versions.find(({ name }) => name === releaseDocsVersion(release)) ?? versions.find(({ isLast }) => isLast);
+  return (docId) => version?.docs.find(({ id }) => id === docId)?.path;
+}
+
+function Change({ change, docPath }: { change: ReleaseChange; docPath?: string }) {
+  return (
+    <li>
+      <InlineMarkdown text={change.description} />
+      {docPath && (
+        <>
+          {' '}
+          <Link to={docPath}>
+            <Translate id="releaseNotes.docLink">Docs</Translate>
+          </Link>
+        </>
+      )}
+    </li>
+  );
+}
+
+function ReleaseSection({ release }: { release: Release }) {
+  const { i18n } = useDocusaurusContext();
+  const docPath = useDocPath(release);
+
+  return (
+    <section className="release-notes-release">
+      <Heading as="h2" id={releaseAnchor(release.version)}>
+        {PRODUCT.name} {release.version}
+        {release.unreleased && (
+          <span className="badge badge--secondary release-notes-status">
+            <Translate id="releaseNotes.unreleased">Unreleased</Translate>
+          </span>
+        )}
+      </Heading>
+      {release.date && (
+        <p className="release-notes-date">
+          <time dateTime={release.date}>
+            {new Intl.DateTimeFormat(i18n.currentLocale, { dateStyle: 'long', timeZone: 'UTC' }).format(
+              new Date(release.date)
+            )}
+          </time>
+        </p>
+      )}
+      <p>{release.summary}</p>
+      {CHANGE_TYPES.map((type) => {
+        const changes = release.changes.filter((change) => change.type === type);
+        return (
+          changes.length > 0 && (
+            <React.Fragment key={type}>
+              <h3>{changeTypeLabel(type)}</h3>
+              <ul>
+                {changes.map((change) => (
+                  <Change key={change.description} change={change} docPath={change.doc && docPath(change.doc)} />
+                ))}
+              </ul>
+            </React.Fragment>
+          )
+        );
+      })}
+    </section>
+  );
+}
+
+/** Every release of `src/data/releases.ts`, newest first. */
+export default function ReleaseNotes(): JSX.Element {
+  return (
+    <div className="release-notes">
+      {RELEASES.map((release) => (
+        <ReleaseSection key={release.version} release={release} />
+      ))}
+    </div>
+  );
+}
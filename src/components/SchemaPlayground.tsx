@@ -0,0 +1,252 @@
+import React, { JSX, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import Translate, { translate } from '@docusaurus/Translate';
+import CodeBlock from '@theme/CodeBlock';
+import TabItem from '@theme/TabItem';
+import Tabs from '@theme/Tabs';
+import { SCHEMA_PLAYGROUND_PRESETS, type SchemaPlaygroundPresetId } from '../data/schemaPlaygroundPresets';
+import {
+  exampleInstance,
+  invalidJsonError,
+  parseSchema,
+  schemaTitle,
+  validateAgainstSchema,
+  type JsonSchema,
+  type SchemaError,
+} from '../utils/jsonSchema';
+import { formatLoc, formatValidationError, pydanticModelSource } from '../utils/pydantic';
+import './SchemaPlayground.css';
+
+type Props = {
+  /** Preset loaded initially. */
+  preset?: SchemaPlaygroundPresetId;
+};
+
+type Analysis =
+  | { status: 'invalid-schema'; error: string }
+  | {
+      status: 'validated';
+      schema: JsonSchema;
+      example: string;
+      modelSource: string;
+      /** The parsed output; `undefined` when it is not JSON. */
+      output?: unknown;
+      errors: SchemaError[];
+    };
+
+type OutputLine = {
+  text: string;
+  /** Location of the value the line starts, as in `SchemaError.loc`. */
+  loc: (string | number)[];
+};
+
+// Pretty-prints a JSON value line by line, remembering which value each line starts.
+function outputLines(value: unknown, loc: (string | number)[] = [], prefix = '', indent = ''): OutputLine[] {
+  const isArray = Array.isArray(value);
+  if (typeof value !== 'object' || value === null || Object.keys(value).length === 0) {
+    return [{ text: `${indent}${prefix}${JSON.stringify(value)}`, loc }];
+  }
+  const entries: [string | number, unknown][] = isArray
+    ? value.map((item, index) => [index, item])
+    : Object.entries(value as Record<string, unknown>);
+  const lines: OutputLine[] = [{ text: `${indent}${prefix}${isArray ? '[' : '{'}`, loc }];
+  entries.forEach(([key, item], index) => {
+    const itemLines = outputLines(item, [...loc, key], isArray ? '' : `${JSON.stringify(key)}: `, `${indent}  `);
+    if (index < entries.length - 1) {
+      itemLines[itemLines.length - 1].text += ',';
+    }
+    lines.push(...itemLines);
+  });
+  lines.push({ text: `${indent}${isArray ? ']' : '}'}`, loc });
+  return lines;
+}
+
+function startsWith(loc: (string | number)[], prefix: (string | number)[]): boolean {
+  return prefix.length <= loc.length && prefix.every((segment, index) => segment === loc[index]);
+}
+
+// The errors reported on each line: on the line of the invalid value, or of the object missing a field. Union member
+// names in a location match no line, so the longest matching location wins.
+function errorsByLine(lines: OutputLine[], errors: SchemaError[]): Map<number, SchemaError[]> {
+  const byLine = new Map<number, SchemaError[]>();
+  for (const error of errors) {
+    let best = -1;
+    lines.forEach((line, index) => {
+      if (startsWith(error.loc, line.loc) && (best < 0 || line.loc.length > lines[best].loc.length)) {
+        best = index;
+      }
+    });
+    byLine.set(best, [...(byLine.get(best) ?? []), error]);
+  }
+  return byLine;
+}
+
+function HighlightedOutput({ output, errors }: { output: unknown; errors: SchemaError[] }) {
+  const lines = outputLines(output);
+  const byLine = errorsByLine(lines, errors);
+  return (
+    <pre className="schema-playground-output">
+      {lines.map((line, index) => {
+        const lineErrors = byLine.get(index);
+        return (
+          <div key={index} className={clsx(lineErrors && 'schema-playground-output-line--error')}>
+            {line.text}
+            {lineErrors?.map((error, errorIndex) => (
+              <span key={errorIndex} className="schema-playground-output-error">
+                {formatLoc(error.loc) || translate({ id: 'schemaPlayground.rootLocation', message: '(root)' })}:{' '}
+                {error.msg}
+              </span>
+            ))}
+          </div>
+        );
+      })}
+    </pre>
+  );
+}
+
+function analyze(schemaSource: string, outputSource: string): Analysis {
+  let schema: JsonSchema;
+  let example: string;
+  let modelSource: string;
+  try {
+    schema = parseSchema(schemaSource);
+    // Both throw on a `$ref` that can't be resolved, before the output is looked at.
+    example = JSON.stringify(exampleInstance(schema), null, 2);
+    modelSource = pydanticModelSource(schema);
+  } catch (error) {
+    return { status: 'invalid-schema', error: (error as Error).message };
+  }
+  const derived = { status: 'validated', schema, example, modelSource } as const;
+  let output: unknown;
+  try {
+    output = JSON.parse(outputSource);
+  } catch (error) {
+    return { ...derived, errors: [invalidJsonError(outputSource, error as Error)] };
+  }
+  return { ...derived, output, errors: validateAgainstSchema(schema, output) };
+}
+
+/**
+ * Validates a model output against the JSON Schema of a Pydantic model in the browser, reporting the errors the way
+ * Pydantic does, and derives an example instance and the Pydantic classes from the schema.
+ */
+export default function SchemaPlayground({ preset = 'product-review' }: Props): JSX.Element {
+  const [presetId, setPresetId] = useState(preset);
+  const [schemaSource, setSchemaSource] = useState(() =>
+    JSON.stringify(SCHEMA_PLAYGROUND_PRESETS[preset].schema, null, 2)
+  );
+  const [outputSource, setOutputSource] = useState(SCHEMA_PLAYGROUND_PRESETS[preset].output);
+
+  const analysis = useMemo(() => analyze(schemaSource, outputSource), [schemaSource, outputSource]);
+
+  const loadPreset = (id: SchemaPlaygroundPresetId) => {
+    setPresetId(id);
+    setSchemaSource(JSON.stringify(SCHEMA_PLAYGROUND_PRESETS[id].schema, null, 2));
+    setOutputSource(SCHEMA_PLAYGROUND_PRESETS[id].output);
+  };
+
+  return (
+    <div className="schema-playground">
+      <label className="schema-playground-field schema-playground-preset">
+        <span>{translate({ id: 'schemaPlayground.preset', message: 'Start from' })}</span>
+        <select value={presetId} onChange={(event) => loadPreset(event.target.value as SchemaPlaygroundPresetId)}>
+          {Object.entries(SCHEMA_PLAYGROUND_PRESETS).map(([id, { label }]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="schema-playground-inputs">
+        <label className="schema-playground-field">
+          <span>
+            <Translate id="schemaPlayground.schema" values={{ method: <code>Model.model_json_schema()</code> }}>
+              {'JSON Schema {method}'}
+            </Translate>
+          </span>
+          <textarea
+            rows={16}
+            spellCheck={false}
+            value={schemaSource}
+            onChange={(event) => setSchemaSource(event.target.value)}
+          />
+        </label>
+        <label className="schema-playground-field">
+          <span>{translate({ id: 'schemaPlayground.output', message: 'Model output' })}</span>
+          <textarea
+            rows={16}
+            spellCheck={false}
+            value={outputSource}
+            onChange={(event) => setOutputSource(event.target.value)}
+          />
+        </label>
+      </div>
+
+      {analysis.status === 'invalid-schema' ? (
+        <p className="schema-playground-status schema-playground-status--error">
+          {translate(
+            { id: 'schemaPlayground.invalidSchema', message: "The schema can't be used: {error}" },
+            { error: analysis.error }
+          )}
+        </p>
+      ) : (
+        <Tabs>
+          <TabItem
+            value="validation"
+            label={
+              analysis.errors.length === 0
+                ? translate({ id: 'schemaPlayground.tab.valid', message: 'Validation ✓' })
+                : translate({ id: 'schemaPlayground.tab.invalid', message: 'Validation ✗' })
+            }
+            default
+          >
+            {analysis.errors.length === 0 ? (
+              <p className="schema-playground-status schema-playground-status--valid">
+                <Translate id="schemaPlayground.valid" values={{ method: <code>chat_response.structured()</code> }}>
+                  {'The output is valid: {method} returns it as a dict.'}
+                </Translate>
+              </p>
+            ) : (
+              <>
+                <p className="schema-playground-status schema-playground-status--error">
+                  <Translate
+                    id="schemaPlayground.invalid"
+                    values={{ method: <code>structured()</code>, error: <code>pydantic.ValidationError</code> }}
+                  >
+                    {'{method} raises a {error}:'}
+                  </Translate>
+                </p>
+                <CodeBlock language="text">
+                  {formatValidationError(schemaTitle(analysis.schema), analysis.errors)}
+                </CodeBlock>
+                {analysis.output !== undefined && (
+                  <HighlightedOutput output={analysis.output} errors={analysis.errors} />
+                )}
+              </>
+            )}
+          </TabItem>
+          <TabItem
+            value="example"
+            label={translate({ id: 'schemaPlayground.tab.example', message: 'Example instance' })}
+          >
+            <CodeBlock language="json">{analysis.example}</CodeBlock>
+            <button
+              type="button"
+              className="button button--sm button--secondary"
+              onClick={() => setOutputSource(analysis.example)}
+            >
+              {translate({ id: 'schemaPlayground.useExample', message: 'Use as model output' })}
+            </button>
+          </TabItem>
+          <TabItem
+            value="pydantic"
+            label={translate({ id: 'schemaPlayground.tab.pydantic', message: 'Pydantic model' })}
+          >
+            <CodeBlock language="python">{analysis.modelSource}</CodeBlock>
+          </TabItem>
+        </Tabs>
+      )}
+    </div>
+  );
+}
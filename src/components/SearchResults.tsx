@@ -0,0 +1,129 @@
+import React, { JSX, useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import { translate } from '@docusaurus/Translate';
+import { useStorageSlot } from '@docusaurus/theme-common';
+import {
+  INCLUDE_DEPRECATED_STORAGE_KEY,
+  SEARCH_PRODUCT_LABELS,
+  countByProduct,
+  loadSearchIndex,
+  searchIndex,
+  type SearchHit,
+  type SearchProduct,
+} from '../utils/search';
+import type { SearchIndex } from '../../plugins/search-index/types';
+import './SearchResults.css';
+
+type Props = {
+  query: string;
+  /** Maximum number of hits to render; the search page shows them all. */
+  limit?: number;
+  /** Called when a hit is followed, e.g. to close the search modal. */
+  onNavigate?: () => void;
+};
+
+type ProductFilter = SearchProduct | 'all';
+
+function useSearchIndex(): SearchIndex | null {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex().then((loaded) => {
+      if (!cancelled) {
+        setIndex(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  return index;
+}
+
+export function useIncludeDeprecated(): [boolean, (value: boolean) => void] {
+  const [stored, slot] = useStorageSlot(INCLUDE_DEPRECATED_STORAGE_KEY);
+  return [stored === 'true', (value) => (value ? slot.set('true') : slot.del())];
+}
+
+function Hit({ hit, onNavigate }: { hit: SearchHit; onNavigate?: () => void }) {
+  const { document, section, url, snippet } = hit;
+  return (
+    <li className="search-hit">
+      <Link to={url} onClick={onNavigate} className="search-hit-link">
+        <div className="search-hit-title">
+          {document.title}
+          {section.heading && section.heading !== document.title && (
+            <span className="search-hit-heading"> › {section.heading}</span>
+          )}
+          <span className={clsx('search-hit-product', document.deprecated && 'search-hit-product--deprecated')}>
+            {SEARCH_PRODUCT_LABELS[document.product]}
+          </span>
+        </div>
+        {snippet && <p className="search-hit-snippet">{snippet}</p>}
+      </Link>
+    </li>
+  );
+}
+
+export default function SearchResults({ query, limit, onNavigate }: Props): JSX.Element {
+  const index = useSearchIndex();
+  const [includeDeprecated, setIncludeDeprecated] = useIncludeDeprecated();
+  const [productFilter, setProductFilter] = useState<ProductFilter>('all');
+
+  const hits = useMemo(
+    () => (index ? searchIndex(index, query, { includeDeprecated }) : []),
+    [index, query, includeDeprecated]
+  );
+  const counts = useMemo(() => countByProduct(hits), [hits]);
+  const visibleHits = productFilter === 'all' ? hits : hits.filter((hit) => hit.document.product === productFilter);
+  const products = Object.keys(SEARCH_PRODUCT_LABELS) as SearchProduct[];
+
+  return (
+    <div className="search-results">
+      <div className="search-facets">
+        <button
+          type="button"
+          className={clsx('search-facet', productFilter === 'all' && 'search-facet--active')}
+          onClick={() => setProductFilter('all')}
+        >
+          {translate({ id: 'search.facet.all', message: 'All ({count})' }, { count: hits.length })}
+        </button>
+        {products
+          .filter((product) => counts[product] || product === productFilter)
+          .map((product) => (
+            <button
+              key={product}
+              type="button"
+              className={clsx('search-facet', productFilter === product && 'search-facet--active')}
+              onClick={() => setProductFilter(product)}
+            >
+              {SEARCH_PRODUCT_LABELS[product]} ({counts[product] ?? 0})
+            </button>
+          ))}
+        <label className="search-include-deprecated">
+          <input
+            type="checkbox"
+            checked={includeDeprecated}
+            onChange={(event) => setIncludeDeprecated(event.target.checked)}
+          />{' '}
+          {translate({ id: 'search.includeDeprecated', message: 'Include deprecated docs' })}
+        </label>
+      </div>
+
+      {!index && (
+        <p className="search-status">{translate({ id: 'search.loading', message: 'Loading search index…' })}</p>
+      )}
+      {index && query.trim() && visibleHits.length === 0 && (
+        <p className="search-status">
+          {translate({ id: 'search.noResults', message: 'No results for “{query}”.' }, { query })}
+        </p>
+      )}
+      <ul className="search-hits">
+        {(limit ? visibleHits.slice(0, limit) : visibleHits).map((hit, idx) => (
+          <Hit key={`${hit.url}-${idx}`} hit={hit} onNavigate={onNavigate} />
+        ))}
+      </ul>
+    </div>
+  );
+}
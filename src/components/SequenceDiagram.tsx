@@ -0,0 +1,314 @@
+import React, { CSSProperties, JSX, useEffect, useId, useRef, useState } from 'react';
+import clsx from 'clsx';
+import type { PrismTheme } from 'prism-react-renderer';
+import { translate } from '@docusaurus/Translate';
+import { usePrismTheme } from '@docusaurus/theme-common';
+import { SEQUENCE_DIAGRAMS, type SequenceDiagramId } from '../data/sequenceDiagrams';
+import {
+  LOOP_TAB_WIDTH,
+  PARTICIPANT_HEIGHT,
+  layoutSequenceDiagram,
+  sequenceDiagramText,
+  type MessageLayout,
+  type TextStep,
+} from '../utils/sequenceDiagram';
+import InlineMarkdown from './InlineMarkdown';
+import './SequenceDiagram.css';
+
+type Props = {
+  diagram: SequenceDiagramId;
+};
+
+type View = { scale: number; x: number; y: number };
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 1.25;
+const PAN_STEP = 40;
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+function tokenColor(theme: PrismTheme, type: string): string | undefined {
+  return theme.styles.find(({ types }) => types.includes(type))?.style.color;
+}
+
+// Code spans of labels take the colors of the code blocks (`themeConfig.prism`), everything else the site's colors.
+function prismVariables(theme: PrismTheme): CSSProperties {
+  return {
+    '--sequence-diagram-code-color': tokenColor(theme, 'function') ?? theme.plain.color,
+    '--sequence-diagram-note-background': theme.plain.backgroundColor,
+    '--sequence-diagram-note-color': theme.plain.color,
+  } as CSSProperties;
+}
+
+/** A label's text, with its `code` spans in the code font. */
+function LabelText({ label }: { label: string }) {
+  return (
+    <>
+      {label.split('`').map((part, index) =>
+        index % 2 === 1 ? (
+          <tspan key={index} className="sequence-diagram-code">
+            {part}
+          </tspan>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+function Message({ message, markers }: { message: MessageLayout; markers: string }) {
+  const { number, label, reply, self, x1, x2, y } = message;
+  const marker = `url(#${markers}-${reply ? 'reply' : 'call'})`;
+  const className = clsx('sequence-diagram-message', reply && 'sequence-diagram-message--reply');
+  if (self) {
+    return (
+      <g className={className}>
+        <path d={`M ${x1} ${y - 12} h 28 v 24 h -24`} markerEnd={marker} />
+        <text x={x1 + 36} y={y + 4}>
+          <tspan className="sequence-diagram-number">{number}. </tspan>
+          <LabelText label={label} />
+        </text>
+      </g>
+    );
+  }
+  // The arrow stops short of the lifeline, so the marker's tip touches it.
+  const direction = Math.sign(x2 - x1);
+  return (
+    <g className={className}>
+      <line x1={x1} y1={y} x2={x2 - direction * 2} y2={y} markerEnd={marker} />
+      <text x={(x1 + x2) / 2} y={y - 7} textAnchor="middle">
+        <tspan className="sequence-diagram-number">{number}. </tspan>
+        <LabelText label={label} />
+      </text>
+    </g>
+  );
+}
+
+function TextSteps({ steps }: { steps: TextStep[] }) {
+  return (
+    <ul>
+      {steps.map((step, index) => (
+        <li key={index}>
+          {step.kind === 'message' && (
+            <>
+              {step.number}. {step.route}
+              {step.reply && ` ${translate({ id: 'sequenceDiagram.text.reply', message: '(reply)' })}`}:{' '}
+              <InlineMarkdown text={step.label} />
+            </>
+          )}
+          {step.kind === 'note' && (
+            <>
+              {translate(
+                { id: 'sequenceDiagram.text.note', message: 'Note ({participants}):' },
+                { participants: step.participants }
+              )}{' '}
+              <InlineMarkdown text={step.text} />
+            </>
+          )}
+          {step.kind === 'loop' && (
+            <>
+              {translate({ id: 'sequenceDiagram.text.loop', message: 'Loop, {label}:' }, { label: step.label })}
+              <TextSteps steps={step.steps} />
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Draws a diagram of `src/data/sequenceDiagrams.ts` as SVG, in the site's colors and the code blocks' Prism theme, with
+ * zoom and pan for large diagrams and a numbered text version below it.
+ */
+export default function SequenceDiagram({ diagram: id }: Props): JSX.Element {
+  const diagram = SEQUENCE_DIAGRAMS[id];
+  const layout = layoutSequenceDiagram(diagram);
+  const prismTheme = usePrismTheme();
+  const markers = useId().replace(/:/g, '');
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ pointerId: number; x: number; y: number } | null>(null);
+  const [view, setView] = useState(INITIAL_VIEW);
+
+  const zoom = (factor: number) => setView((current) => ({ ...current, scale: clampScale(current.scale * factor) }));
+  const pan = (dx: number, dy: number) => setView((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+
+  // Ctrl/⌘ + wheel zooms; a plain wheel keeps scrolling the page. React's wheel listener is passive, so it can't
+  // prevent the browser's own zoom.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const onWheel = (event: WheelEvent) => {
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault();
+        zoom(event.deltaY < 0 ? SCALE_STEP : 1 / SCALE_STEP);
+      }
+    };
+    viewport?.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport?.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    const actions: Record<string, () => void> = {
+      '+': () => zoom(SCALE_STEP),
+      '=': () => zoom(SCALE_STEP),
+      '-': () => zoom(1 / SCALE_STEP),
+      '0': () => setView(INITIAL_VIEW),
+      ArrowLeft: () => pan(PAN_STEP, 0),
+      ArrowRight: () => pan(-PAN_STEP, 0),
+      ArrowUp: () => pan(0, PAN_STEP),
+      ArrowDown: () => pan(0, -PAN_STEP),
+    };
+    const action = actions[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  const titleId = `${markers}-title`;
+  const textId = `${markers}-text`;
+
+  return (
+    <figure className="sequence-diagram" style={prismVariables(prismTheme)}>
+      <div className="sequence-diagram-toolbar">
+        <figcaption id={titleId}>{diagram.title}</figcaption>
+        <button
+          type="button"
+          className="button button--sm button--secondary"
+          aria-label={translate({ id: 'sequenceDiagram.zoomOut', message: 'Zoom out' })}
+          disabled={view.scale <= MIN_SCALE}
+          onClick={() => zoom(1 / SCALE_STEP)}
+        >
+          −
+        </button>
+        <span className="sequence-diagram-scale">{Math.round(view.scale * 100)}%</span>
+        <button
+          type="button"
+          className="button button--sm button--secondary"
+          aria-label={translate({ id: 'sequenceDiagram.zoomIn', message: 'Zoom in' })}
+          disabled={view.scale >= MAX_SCALE}
+          onClick={() => zoom(SCALE_STEP)}
+        >
+          +
+        </button>
+        <button
+          type="button"
+          className="button button--sm button--secondary"
+          disabled={view === INITIAL_VIEW}
+          onClick={() => setView(INITIAL_VIEW)}
+        >
+          {translate({ id: 'sequenceDiagram.reset', message: 'Reset' })}
+        </button>
+      </div>
+      <div
+        ref={viewportRef}
+        className={clsx('sequence-diagram-viewport', drag && 'sequence-diagram-viewport--dragging')}
+        tabIndex={0}
+        role="group"
+        aria-label={translate(
+          {
+            id: 'sequenceDiagram.viewport',
+            message: '{title}: drag or use the arrow keys to pan, + and - to zoom',
+          },
+          { title: diagram.title }
+        )}
+        onKeyDown={onKeyDown}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setDrag({ pointerId: event.pointerId, x: event.clientX, y: event.clientY });
+        }}
+        onPointerMove={(event) => {
+          if (drag?.pointerId === event.pointerId) {
+            pan(event.clientX - drag.x, event.clientY - drag.y);
+            setDrag({ ...drag, x: event.clientX, y: event.clientY });
+          }
+        }}
+        onPointerUp={() => setDrag(null)}
+        onPointerCancel={() => setDrag(null)}
+      >
+        <svg
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          style={{
+            maxWidth: layout.width,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+          }}
+          role="img"
+          aria-labelledby={titleId}
+          aria-describedby={textId}
+        >
+          <defs>
+            <marker
+              id={`${markers}-call`}
+              viewBox="0 0 10 10"
+              refX="10"
+              refY="5"
+              markerWidth="8"
+              markerHeight="8"
+              orient="auto"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" className="sequence-diagram-marker" />
+            </marker>
+            <marker
+              id={`${markers}-reply`}
+              viewBox="0 0 10 10"
+              refX="10"
+              refY="5"
+              markerWidth="8"
+              markerHeight="8"
+              orient="auto"
+            >
+              <path d="M 0 0 L 10 5 L 0 10" className="sequence-diagram-marker sequence-diagram-marker--open" />
+            </marker>
+          </defs>
+          {layout.loops.map((loop, index) => (
+            <g key={index} className="sequence-diagram-loop">
+              <rect x={loop.x} y={loop.y} width={loop.width} height={loop.height} rx={4} />
+              <path d={`M ${loop.x} ${loop.y + 20} h ${LOOP_TAB_WIDTH - 6} l 6 -6 v -14`} />
+              <text x={loop.x + 6} y={loop.y + 14} className="sequence-diagram-loop-keyword">
+                loop
+              </text>
+              <text x={loop.x + LOOP_TAB_WIDTH + 6} y={loop.y + 14}>
+                [{loop.label}]
+              </text>
+            </g>
+          ))}
+          {layout.participants.map((participant) => (
+            <g key={participant.id} className="sequence-diagram-participant">
+              <line x1={participant.x} y1={layout.lifelines.top} x2={participant.x} y2={layout.lifelines.bottom} />
+              <rect
+                x={participant.x - participant.width / 2}
+                y={layout.lifelines.top - PARTICIPANT_HEIGHT}
+                width={participant.width}
+                height={PARTICIPANT_HEIGHT}
+                rx={6}
+              />
+              <text x={participant.x} y={layout.lifelines.top - PARTICIPANT_HEIGHT / 2 + 5} textAnchor="middle">
+                {participant.label}
+              </text>
+            </g>
+          ))}
+          {layout.notes.map((note, index) => (
+            <g key={index} className="sequence-diagram-note">
+              <rect x={note.x} y={note.y} width={note.width} height={note.height} rx={4} />
+              <text x={note.x + note.width / 2} y={note.y + note.height / 2 + 4} textAnchor="middle">
+                <LabelText label={note.text} />
+              </text>
+            </g>
+          ))}
+          {layout.messages.map((message) => (
+            <Message key={message.number} message={message} markers={markers} />
+          ))}
+        </svg>
+      </div>
+      <details id={textId} className="sequence-diagram-text">
+        <summary>{translate({ id: 'sequenceDiagram.textVersion', message: 'Text version' })}</summary>
+        <TextSteps steps={sequenceDiagramText(diagram)} />
+      </details>
+    </figure>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { JSX, useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { translate } from '@docusaurus/Translate';
+import { STREAM_FIXTURES, type StreamFixtureId } from '../data/streamFixtures';
+import { accumulateStream, rawStep, type AccumulatedResponse } from '../utils/streamReplay';
+import './StreamReplay.css';
+
+type Props = {
+  fixture: StreamFixtureId;
+  /** Delay between two steps while playing. */
+  intervalMs?: number;
+};
+
+function RawSteps({ steps, position }: { steps: ReturnType<typeof rawStep>[]; position: number }) {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Keep the latest step in view, without scrolling the page itself.
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [position]);
+
+  return (
+    <ol ref={listRef} className="stream-replay-raw">
+      {steps.slice(0, position).map(({ chunk, finalResponse }, index) => (
+        <li key={index} className={clsx(index === position - 1 && 'stream-replay-raw--latest')}>
+          <span className="stream-replay-raw-label">chunk</span>
+          <pre>{chunk}</pre>
+          <span className="stream-replay-raw-label">final_response</span>
+          <pre>{finalResponse}</pre>
+        </li>
+      ))}
+      {position === 0 && (
+        <li className="stream-replay-empty">
+          {translate({ id: 'streamReplay.empty', message: 'Press play or step to receive the first chunk.' })}
+        </li>
+      )}
+    </ol>
+  );
+}
+
+function Accumulated({ response, done }: { response: AccumulatedResponse; done: boolean }) {
+  const { reasoning, text, toolCalls, usage } = response;
+
+  return (
+    <div className="stream-replay-accumulated">
+      {reasoning && (
+        <section>
+          <h5>
+            <code>reasoning()</code>
+          </h5>
+          <p className="stream-replay-reasoning">{reasoning}</p>
+        </section>
+      )}
+      <section>
+        <h5>
+          <code>text()</code>
+        </h5>
+        <p>
+          {text}
+          {!done && <span className="stream-replay-cursor" aria-hidden="true" />}
+        </p>
+      </section>
+      {toolCalls.length > 0 && (
+        <section>
+          <h5>
+            <code>tools()</code>
+          </h5>
+          {toolCalls.map((call) => (
+            <div key={call.call_id} className="stream-replay-tool-call">
+              <code>
+                {call.name}({call.arguments})
+              </code>
+              <small>
+                {call.call_id} ·{' '}
+                {call.parsed
+                  ? translate({ id: 'streamReplay.toolCall.complete', message: 'arguments complete' })
+                  : translate({ id: 'streamReplay.toolCall.streaming', message: 'arguments still streaming' })}
+              </small>
+            </div>
+          ))}
+        </section>
+      )}
+      <section>
+        <h5>
+          <code>usage</code>
+        </h5>
+        {usage ? (
+          <p>
+            {usage.reasoning_tokens === null
+              ? translate(
+                  {
+                    id: 'streamReplay.usage',
+                    message: '{prompt} prompt + {completion} completion = {total} tokens',
+                  },
+                  { prompt: usage.prompt_tokens, completion: usage.completion_tokens, total: usage.total_tokens }
+                )
+              : translate(
+                  {
+                    id: 'streamReplay.usage.withReasoning',
+                    message: '{prompt} prompt + {completion} completion = {total} tokens ({reasoning} reasoning)',
+                  },
+                  {
+                    prompt: usage.prompt_tokens,
+                    completion: usage.completion_tokens,
+                    total: usage.total_tokens,
+                    reasoning: usage.reasoning_tokens,
+                  }
+                )}
+          </p>
+        ) : (
+          <p className="stream-replay-pending">
+            {translate({ id: 'streamReplay.usage.pending', message: 'Only set on the final response.' })}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
+
+/**
+ * Replays a recorded stream of `src/data/streamFixtures.ts`: the `(chunk, final_response)` pairs of
+ * `response.stream_generator` on one side, and the response accumulated from them on the other.
+ */
+export default function StreamReplay({ fixture, intervalMs = 600 }: Props): JSX.Element {
+  const { model, prompt, config, steps } = STREAM_FIXTURES[fixture];
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const done = position === steps.length;
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    if (done) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPosition(position + 1), intervalMs);
+    return () => clearTimeout(timer);
+  }, [playing, done, position, intervalMs]);
+
+  const onPlay = () => {
+    // Playing a finished replay starts it over.
+    if (done) {
+      setPosition(0);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="stream-replay">
+      <div className="stream-replay-header">
+        <span>
+          <code>{model}</code> · <code>{config}</code>
+        </span>
+        <span className="stream-replay-prompt">“{prompt}”</span>
+      </div>
+      <div className="stream-replay-controls">
+        <button type="button" className="button button--sm button--primary" onClick={onPlay}>
+          {playing
+            ? translate({ id: 'streamReplay.pause', message: 'Pause' })
+            : done
+              ? translate({ id: 'streamReplay.replay', message: 'Replay' })
+              : translate({ id: 'streamReplay.play', message: 'Play' })}
+        </button>
+        <button
+          type="button"
+          className="button button--sm button--secondary"
+          disabled={position === 0}
+          onClick={() => setPosition(position - 1)}
+        >
+          {translate({ id: 'streamReplay.stepBack', message: 'Step back' })}
+        </button>
+        <button
+          type="button"
+          className="button button--sm button--secondary"
+          disabled={done}
+          onClick={() => setPosition(position + 1)}
+        >
+          {translate({ id: 'streamReplay.step', message: 'Step' })}
+        </button>
+        <button
+          type="button"
+          className="button button--sm button--secondary"
+          disabled={position === 0}
+          onClick={() => {
+            setPlaying(false);
+            setPosition(0);
+          }}
+        >
+          {translate({ id: 'streamReplay.reset', message: 'Reset' })}
+        </button>
+        <span className="stream-replay-position">
+          {position} / {steps.length}
+        </span>
+      </div>
+      <div className="stream-replay-panes">
+        <div>
+          <h4>{translate({ id: 'streamReplay.yieldedPairs', message: 'Yielded pairs' })}</h4>
+          <RawSteps steps={steps.map((step) => rawStep(step, steps))} position={position} />
+        </div>
+        <div>
+          <h4>{translate({ id: 'streamReplay.accumulated', message: 'Accumulated response' })}</h4>
+          <Accumulated response={accumulateStream(steps.slice(0, position))} done={done} />
+        </div>
+      </div>
+    </div>
+  );
+}
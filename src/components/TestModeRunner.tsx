@@ -0,0 +1,105 @@
+import React, { JSX, ReactNode, useEffect, useState } from 'react';
+import { translate } from '@docusaurus/Translate';
+import { isTestModeRuntimeAvailable, runInTestMode, type TestModeRunResult } from '../utils/testModeRunner';
+import './TestModeRunner.css';
+
+type Props = {
+  code: string;
+};
+
+type RunState =
+  | { status: 'idle' }
+  | { status: 'running' }
+  | { status: 'done'; result: TestModeRunResult }
+  | { status: 'failed'; error: string };
+
+/** Whether this build bundles the test-mode runtime; `null` until known, and always on the server. */
+function useTestModeRuntimeAvailable(): boolean | null {
+  const [available, setAvailable] = useState<boolean | null>(null);
+  useEffect(() => {
+    isTestModeRuntimeAvailable()
+      .then(setAvailable)
+      .catch(() => setAvailable(false));
+  }, []);
+  return available;
+}
+
+/** Content about the runner (e.g. prose asking to click it), shown only when the runner is. */
+export function TestModeRuntimeOnly({ children }: { children: ReactNode }): JSX.Element | null {
+  return useTestModeRuntimeAvailable() ? <>{children}</> : null;
+}
+
+function Output({ title, text }: { title: string; text?: string }) {
+  if (!text) {
+    return null;
+  }
+  return (
+    <div className="test-mode-runner-output">
+      <div className="test-mode-runner-output-title">{title}</div>
+      <pre>{text}</pre>
+    </div>
+  );
+}
+
+/** "Run in test mode" button and inline output of a runnable Python code block. */
+export default function TestModeRunner({ code }: Props): JSX.Element | null {
+  const available = useTestModeRuntimeAvailable();
+  const [state, setState] = useState<RunState>({ status: 'idle' });
+
+  // Builds without the bundled wheels render the plain code block.
+  if (!available) {
+    return null;
+  }
+
+  const run = async () => {
+    setState({ status: 'running' });
+    try {
+      setState({ status: 'done', result: await runInTestMode(code) });
+    } catch (error) {
+      // The runtime failed to load (its manifest, the Pyodide script or a package); Python errors are in the result.
+      setState({ status: 'failed', error: (error as Error).message });
+    }
+  };
+
+  return (
+    <div className="test-mode-runner">
+      <div className="test-mode-runner-toolbar">
+        <button
+          type="button"
+          className="button button--sm button--primary"
+          onClick={run}
+          disabled={state.status === 'running'}
+        >
+          {state.status === 'running'
+            ? translate({ id: 'testModeRunner.running', message: 'Running…' })
+            : translate({ id: 'testModeRunner.run', message: 'Run in test mode' })}
+        </button>
+        <small>
+          {translate({
+            id: 'testModeRunner.note',
+            message: 'Runs in your browser with canned responses; no API keys, nothing leaves the page.',
+          })}
+        </small>
+      </div>
+      {state.status === 'done' && (
+        <>
+          <Output title="stdout" text={state.result.stdout} />
+          <Output title="stderr" text={state.result.stderr} />
+          <Output title={translate({ id: 'testModeRunner.error', message: 'Error' })} text={state.result.error} />
+          <Output title="response.chat_response" text={state.result.response} />
+          <Output title={translate({ id: 'testModeRunner.usage', message: 'Usage' })} text={state.result.usage} />
+          <Output
+            title={translate({ id: 'testModeRunner.usageCharge', message: 'Usage charge' })}
+            text={state.result.usageCharge}
+          />
+        </>
+      )}
+      {state.status === 'failed' && (
+        <Output
+          title={translate({ id: 'testModeRunner.loadFailed', message: 'The test-mode runtime could not be loaded' })}
+          text={state.error}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { JSX } from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import status from '@generated/dhenara-translation-status/default/translation-status.json';
+import type { TranslationState, TranslationStatusDoc } from '../../plugins/translation-status/types';
+import './TranslationStatus.css';
+
+const STATE_BADGES: Record<TranslationState, string> = {
+  translated: 'badge--success',
+  outdated: 'badge--warning',
+  missing: 'badge--secondary',
+};
+
+function stateLabel(state: TranslationState): string {
+  switch (state) {
+    case 'translated':
+      return translate({ id: 'translationStatus.state.translated', message: 'Translated' });
+    case 'outdated':
+      return translate({ id: 'translationStatus.state.outdated', message: 'Outdated' });
+    case 'missing':
+      return translate({ id: 'translationStatus.state.missing', message: 'Missing' });
+  }
+}
+
+function countStates(docs: TranslationStatusDoc[], locale: string): Record<TranslationState, number> {
+  const counts: Record<TranslationState, number> = { translated: 0, outdated: 0, missing: 0 };
+  for (const { states } of docs) {
+    counts[states[locale]] += 1;
+  }
+  return counts;
+}
+
+function LocaleSummary({ locale, label }: { locale: string; label: string }) {
+  const docs = status.groups.flatMap((group) => group.docs);
+  const counts = countStates(docs, locale);
+  const percent = docs.length === 0 ? 0 : Math.round((counts.translated / docs.length) * 100);
+
+  return (
+    <div className="translation-summary">
+      <div className="translation-summary-header">
+        <strong>{label}</strong>
+        <span>{percent}%</span>
+      </div>
+      <div className="translation-summary-bar" role="presentation">
+        <div
+          className="translation-summary-bar-translated"
+          style={{ width: `${(counts.translated / Math.max(docs.length, 1)) * 100}%` }}
+        />
+        <div
+          className="translation-summary-bar-outdated"
+          style={{ width: `${(counts.outdated / Math.max(docs.length, 1)) * 100}%` }}
+        />
+      </div>
+      <div className="translation-summary-counts">
+        {(Object.keys(counts) as TranslationState[]).map((state) => (
+          <span key={state}>
+            {stateLabel(state)}: {counts[state]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Per-locale translation state of every doc, from `plugins/translation-status`. */
+export default function TranslationStatus(): JSX.Element {
+  return (
+    <div className="translation-status">
+      <div className="translation-summaries">
+        {status.locales.map(({ locale, label }) => (
+          <LocaleSummary key={locale} locale={locale} label={label} />
+        ))}
+      </div>
+
+      {status.groups.map((group) => (
+        <section key={group.name}>
+          <h2>
+            {group.name} <span className="translation-status-version">{group.versionLabel}</span>
+          </h2>
+          <table className="translation-status-table">
+            <thead>
+              <tr>
+                <th>
+                  <Translate id="translationStatus.column.page">Page</Translate>
+                </th>
+                {status.locales.map(({ locale, label }) => (
+                  <th key={locale}>{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {group.docs.map((doc) => (
+                <tr key={doc.id}>
+                  <td>
+                    <Link to={doc.route}>{doc.title}</Link>
+                  </td>
+                  {status.locales.map(({ locale }) => (
+                    <td key={locale}>
+                      <span className={clsx('badge', STATE_BADGES[doc.states[locale]])}>
+                        {stateLabel(doc.states[locale])}
+                      </span>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+}
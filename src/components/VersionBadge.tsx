@@ -0,0 +1,41 @@
+import React, { JSX } from 'react';
+import clsx from 'clsx';
+import Link from '@docusaurus/Link';
+import { translate } from '@docusaurus/Translate';
+import { findRelease, releaseNotesRoute } from '../data/releases';
+import type { VersionBadges } from '../utils/versionBadges';
+import './VersionBadge.css';
+
+function Badge({ version, kind }: { version: string; kind: 'added' | 'changed' }) {
+  const release = findRelease(version);
+  if (!release) {
+    throw new Error(`Version badge for unknown release "${version}": add it to src/data/releases.ts.`);
+  }
+  const label =
+    kind === 'added'
+      ? translate({ id: 'versionBadge.addedIn', message: 'New in {version}' }, { version })
+      : translate({ id: 'versionBadge.changedIn', message: 'Changed in {version}' }, { version });
+
+  return (
+    <Link
+      className={clsx('badge', 'version-badge', kind === 'added' ? 'badge--success' : 'badge--info')}
+      to={releaseNotesRoute(version)}
+      title={release.summary}
+    >
+      {label}
+    </Link>
+  );
+}
+
+/**
+ * "New in" / "Changed in" badges linking to the release notes. Doc pages declare theirs in front matter
+ * (`src/theme/DocItem/Content`); in MDX, a heading takes one after its text: `## Tools <VersionBadge addedIn="1.1" />`.
+ */
+export default function VersionBadge({ addedIn, changedIn }: VersionBadges): JSX.Element {
+  return (
+    <span className="version-badges">
+      {addedIn && <Badge version={addedIn} kind="added" />}
+      {changedIn && <Badge version={changedIn} kind="changed" />}
+    </span>
+  );
+}
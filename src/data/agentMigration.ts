@@ -0,0 +1,123 @@
+// Maps the concepts of the deprecated Agent DSL (`dhenara-agent`) to their Dhenara AI equivalents. The migration
+// guide renders the whole table, and every Agent DSL page listed in `agentDocs` shows its entry as a
+// "How to do this in Dhenara AI" panel.
+
+export type MigrationLink = {
+  label: string;
+  /** Route of a Dhenara AI page. */
+  to: string;
+};
+
+export type AgentMigration = {
+  /** Anchor of the concept's section in the migration guide. */
+  id: string;
+  concept: string;
+  /** Doc ids of the Agent DSL pages documenting the concept. */
+  agentDocs: string[];
+  /** Agent DSL APIs being replaced. */
+  agentApi: string[];
+  /** Dhenara AI APIs (or plain Python) replacing them. */
+  dhenaraAiApi: string[];
+  summary: string;
+  links: MigrationLink[];
+};
+
+export const AGENT_DOCS_PLUGIN_ID = 'dhenara-agent';
+
+export const MIGRATION_GUIDE_PATH = '/dhenara-ai/guides/migrating-from-agent-dsl';
+
+export const AGENT_MIGRATIONS: AgentMigration[] = [
+  {
+    id: 'nodes',
+    concept: 'Nodes',
+    agentDocs: ['concepts/components/nodes', 'concepts/components/custom-components', 'architecture/component-model'],
+    agentApi: ['AIModelNode', 'AIModelNodeSettings', 'FileOperationNode', 'FolderAnalyzerNode', 'CommandNode'],
+    dhenaraAiApi: ['AIModelClient', 'AIModelEndpoint', 'AIModelCallConfig'],
+    summary:
+      'An AIModelNode becomes one AIModelClient call: its settings map to an AIModelEndpoint and an AIModelCallConfig. ' +
+      'File, folder and command nodes become plain Python, or tools the model can call.',
+    links: [
+      { label: 'Quick Start', to: '/dhenara-ai/getting-started/quick-start' },
+      { label: 'Resource Configuration', to: '/dhenara-ai/features/resource-configuration' },
+      { label: 'Tools & Function Calling', to: '/dhenara-ai/guides/tools-and-function-calling' },
+    ],
+  },
+  {
+    id: 'flows',
+    concept: 'Flows and flow control',
+    agentDocs: ['concepts/components/flows', 'concepts/flow-control', 'concepts/core-concepts'],
+    agentApi: ['FlowDefinition', 'flow.node()', 'flow.sequence()', 'flow.conditional()', 'flow.for_each()'],
+    dhenaraAiApi: ['Python functions', 'if / for', 'ChatResponse.structured()'],
+    summary:
+      'A flow becomes ordinary Python: call the client step by step, and branch or loop on the typed result of the ' +
+      'previous call instead of on template expressions.',
+    links: [
+      { label: 'Structured Output', to: '/dhenara-ai/guides/structured-output' },
+      { label: 'Multi-Turn Conversations', to: '/dhenara-ai/features/multi-turn-conversations' },
+    ],
+  },
+  {
+    id: 'templating',
+    concept: 'Templating system',
+    agentDocs: ['concepts/templating-system'],
+    agentApi: ['$var{}', '$expr{}', '$hier{}', 'Prompt.with_dad_text()', 'ObjectTemplate'],
+    dhenaraAiApi: ['f-strings', 'Prompt.with_text()', 'ChatResponse.text()', 'ChatResponse.structured()'],
+    summary:
+      'Template variables become Python variables, and $hier{} references become the response objects you already ' +
+      'hold. Build prompts with f-strings and pass them to Prompt.with_text().',
+    links: [
+      { label: 'Prompts & Messages', to: '/dhenara-ai/guides/prompt-formatter' },
+      { label: 'Type Safety', to: '/dhenara-ai/features/type-safety' },
+    ],
+  },
+  {
+    id: 'events',
+    concept: 'Event system and input handling',
+    agentDocs: ['concepts/event-system', 'concepts/input-handling'],
+    agentApi: ['EventType.node_input_required', 'NodeInputRequiredEvent', 'register_event_handlers()'],
+    dhenaraAiApi: ['Python callbacks', 'stream_generator'],
+    summary:
+      'There is no event bus: collect input before the call that needs it, and follow progress by iterating the ' +
+      'stream of a streaming call.',
+    links: [
+      { label: 'Streaming Simplified', to: '/dhenara-ai/features/streaming-simplified' },
+      { label: 'Test Mode & Async Support', to: '/dhenara-ai/features/test-mode-and-async' },
+    ],
+  },
+  {
+    id: 'run-system',
+    concept: 'Run system and observability',
+    agentDocs: [
+      'concepts/run-system',
+      'concepts/execution-context',
+      'concepts/observability',
+      'architecture/overview',
+      'architecture/execution-model',
+    ],
+    agentApi: ['RunContext', 'AgentRunner', 'FlowRunner', 'run directories', 'OpenTelemetry tracing'],
+    dhenaraAiApi: ['ArtifactConfig', 'UsageCharge'],
+    summary:
+      'Per-run directories become artifact roots: enable ArtifactConfig on the calls you want to capture, and read ' +
+      'token usage and cost from each response.',
+    links: [
+      { label: 'Artifacts & Debugging', to: '/dhenara-ai/guides/artifacts-and-debugging' },
+      { label: 'Usage & Charge Data', to: '/dhenara-ai/features/usage-and-charge' },
+    ],
+  },
+  {
+    id: 'outputs-commands',
+    concept: 'CLI and outputs commands',
+    agentDocs: ['cli/index', 'cli/overview', 'cli/commands', 'cli/extending'],
+    agentApi: ['dhenara agent run', 'dhenara outputs list', 'dhenara outputs compare', 'dhenara outputs checkout'],
+    dhenaraAiApi: ['python your_script.py', 'artifact JSON files'],
+    summary:
+      'Dhenara AI is a library without a CLI: run your own script, and inspect or compare the JSON artifacts under ' +
+      '<artifact_root>/<prefix>/dai/ with the tools you already use, such as diff or git.',
+    links: [{ label: 'Artifacts & Debugging', to: '/dhenara-ai/guides/artifacts-and-debugging' }],
+  },
+];
+
+/** Returns the migration entry of an Agent DSL doc, if the table covers it. */
+export function findAgentMigration(docId: string): AgentMigration | undefined {
+  return AGENT_MIGRATIONS.find(({ agentDocs }) => agentDocs.includes(docId));
+}
@@ -0,0 +1,161 @@
+import type { ModelProvider } from './foundationModels';
+
+// Runnable example scripts shipped in `packages/dhenara_ai/examples/`, mirrored in the canonical dhenara-ai repo under
+// `examples/`. Keep this manifest in sync when scripts are added, renamed or removed there; the build bundles the
+// scripts it lists (`plugins/example-sources`).
+
+export type ExampleTag = 'streaming' | 'structured-output' | 'tools' | 'reasoning' | 'images' | 'async';
+
+export type RunnableExample = {
+  /** Script filename in the examples directory. */
+  filename: string;
+  /** What the script teaches. */
+  description: string;
+  /** What to look for in the output or artifacts. */
+  lookFor: string;
+  tags: ExampleTag[];
+  /** Providers the script runs against out of the box. */
+  providers: ModelProvider[];
+  /** Link to the script on GitHub. */
+  source: string;
+};
+
+export const EXAMPLE_TAGS: Record<ExampleTag, string> = {
+  streaming: 'Streaming',
+  'structured-output': 'Structured output',
+  tools: 'Tools',
+  reasoning: 'Reasoning',
+  images: 'Images',
+  async: 'Async',
+};
+
+const EXAMPLES_SOURCE_BASE = 'https://github.com/dhenara/dhenara-ai/blob/master/examples';
+
+const ALL_PROVIDERS: ModelProvider[] = ['openai', 'anthropic', 'google', 'deepseek'];
+
+function example(filename: string, entry: Omit<RunnableExample, 'filename' | 'source'>): RunnableExample {
+  return { filename, ...entry, source: `${EXAMPLES_SOURCE_BASE}/${filename}` };
+}
+
+export const RUNNABLE_EXAMPLES: RunnableExample[] = [
+  example('01_text_generation.py', {
+    description: 'Provider-agnostic text generation',
+    lookFor: 'The same `.generate()` shape across providers',
+    tags: [],
+    providers: ALL_PROVIDERS,
+  }),
+  example('02_text_streaming.py', {
+    description: 'Streaming response handling',
+    lookFor: 'Token deltas and the final accumulated response',
+    tags: ['streaming'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('10_various_input_formats.py', {
+    description: 'Input styles: prompt, context and messages',
+    lookFor: 'Migration-friendly request shapes',
+    tags: [],
+    providers: ALL_PROVIDERS,
+  }),
+  example('12_multi_turn_with_resouce_config.py', {
+    description: 'Multi-turn conversations via `ResourceConfig`',
+    lookFor: 'Endpoint switching without changing app code',
+    tags: [],
+    providers: ALL_PROVIDERS,
+  }),
+  example('13_streaming_multi_turn_with_resouce_config.py', {
+    description: 'Streaming multi-turn conversations via `ResourceConfig`',
+    lookFor: 'The streaming loop and the final response per turn',
+    tags: ['streaming'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('13_async_streaming_multi_turn_with_resouce_config.py', {
+    description: 'Async streaming multi-turn conversations',
+    lookFor: 'Async generator semantics',
+    tags: ['streaming', 'async'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('14_multi_turn_with_messages_api.py', {
+    description: 'Multi-turn conversations with the Messages API (recommended)',
+    lookFor: 'The `messages` history and `to_message_item()`',
+    tags: [],
+    providers: ALL_PROVIDERS,
+  }),
+  example('15_streaming_multi_turn_with_messages_api.py', {
+    description: 'Streaming with the Messages API',
+    lookFor: 'Streaming with the message history preserved',
+    tags: ['streaming'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('16_multi_turn_with_tools_and_messages_api.py', {
+    description: 'Tools with the Messages API: the correct tool loop',
+    lookFor: '`ToolCallResult` and `call_id` handling',
+    tags: ['tools'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('17_multi_turn_with_structured_output_and_messages_api.py', {
+    description: 'Structured output with the Messages API',
+    lookFor: 'A typed schema per turn',
+    tags: ['structured-output'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('18_streaming_multi_turn_with_tools_and_structured_output.py', {
+    description: 'Streaming with tools and structured output',
+    lookFor: 'A real workflow pattern: stream, tool calls and typed output',
+    tags: ['streaming', 'tools', 'structured-output'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('19_streaming_multi_turn_structured_thinking.py', {
+    description: 'Streaming, multi-turn, structured output, reasoning and validation in one recipe',
+    lookFor: 'The validation-driven loop and the artifacts per call',
+    tags: ['streaming', 'structured-output', 'reasoning'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('20_fn_calling.py', {
+    description: 'The function calling API surface',
+    lookFor: '`ToolDefinition.from_callable` and `ToolChoice`',
+    tags: ['tools'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('21_structed_output.py', {
+    description: 'Structured output quickstart',
+    lookFor: '`structured_output=<Pydantic model>` and `chat.structured()`',
+    tags: ['structured-output'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('30_image_openai.py', {
+    description: 'Image generation with OpenAI',
+    lookFor: 'Unified image response handling',
+    tags: ['images'],
+    providers: ['openai'],
+  }),
+  example('31_image_with_resource_config.py', {
+    description: 'Image generation via `ResourceConfig`',
+    lookFor: 'Switching image endpoints without changing app code',
+    tags: ['images'],
+    providers: ['openai', 'google'],
+  }),
+  example('32_image_with_messages_and_text.py', {
+    description: 'Images alongside text in a message history',
+    lookFor: 'Image and text content in the same conversation',
+    tags: ['images'],
+    providers: ['openai', 'google'],
+  }),
+  example('91_all_providers_structured_simple_test.py', {
+    description: 'Cross-provider structured output sanity check',
+    lookFor: 'Provider normalization differences',
+    tags: ['structured-output'],
+    providers: ALL_PROVIDERS,
+  }),
+  example('98_openai_reasoing.py', {
+    description: 'OpenAI reasoning options',
+    lookFor: '`reasoning_effort` and reasoning mode behavior',
+    tags: ['reasoning'],
+    providers: ['openai'],
+  }),
+  example('99_openai_toolcall.py', {
+    description: 'OpenAI tool calling specifics',
+    lookFor: 'Provider-specific edge cases',
+    tags: ['tools'],
+    providers: ['openai'],
+  }),
+];
@@ -0,0 +1,372 @@
+// Foundation models shipped with the dhenara-ai package, mirrored from
+// `dhenara.ai.types.genai.foundation_models`. Prices are the providers' list prices in USD, as recorded in each
+// model's `cost_data`; keep this file in sync when models are added to or updated in the package.
+
+export type ModelProvider = 'openai' | 'anthropic' | 'google' | 'deepseek';
+
+export type Modality = 'text' | 'image';
+
+export type ModelCapability = 'reasoning' | 'tools' | 'structured-output' | 'vision' | 'image-generation';
+
+export type TokenPricing = {
+  kind: 'tokens';
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type ImagePricing = {
+  kind: 'image';
+  /** Cost of one image, keyed by the quality/size option combination, e.g. `standard 1024x1024`. */
+  perImage: Record<string, number>;
+};
+
+export type FoundationModelInfo = {
+  /** Python constant exporting the model, e.g. `GPT52`. */
+  constant: string;
+  /** Python module the constant is imported from. */
+  module: string;
+  modelName: string;
+  displayName: string;
+  provider: ModelProvider;
+  functionalType: 'text_generation' | 'image_generation';
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  inputModalities: Modality[];
+  outputModalities: Modality[];
+  capabilities: ModelCapability[];
+  pricing: TokenPricing | ImagePricing;
+};
+
+export const MODEL_PROVIDERS: Record<ModelProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google AI',
+  deepseek: 'DeepSeek',
+};
+
+export const MODEL_CAPABILITIES: Record<ModelCapability, string> = {
+  reasoning: 'Reasoning',
+  tools: 'Tools',
+  'structured-output': 'Structured output',
+  vision: 'Vision',
+  'image-generation': 'Image generation',
+};
+
+const FOUNDATION_MODELS_MODULE = 'dhenara.ai.types.genai.foundation_models';
+
+const CHAT_CAPABILITIES: ModelCapability[] = ['tools', 'structured-output', 'vision'];
+
+export const FOUNDATION_MODELS: FoundationModelInfo[] = [
+  // OpenAI
+  {
+    constant: 'GPT52',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-5.2',
+    displayName: 'GPT-5.2',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 1.75, outputPerMillion: 14 },
+  },
+  {
+    constant: 'GPT5',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-5',
+    displayName: 'GPT-5',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 1.25, outputPerMillion: 10 },
+  },
+  {
+    constant: 'GPT5Mini',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-5-mini',
+    displayName: 'GPT-5 mini',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 0.25, outputPerMillion: 2 },
+  },
+  {
+    constant: 'GPT5Nano',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-5-nano',
+    displayName: 'GPT-5 nano',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 0.05, outputPerMillion: 0.4 },
+  },
+  {
+    constant: 'GPT41',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-4.1',
+    displayName: 'GPT-4.1',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: CHAT_CAPABILITIES,
+    pricing: { kind: 'tokens', inputPerMillion: 2, outputPerMillion: 8 },
+  },
+  {
+    constant: 'GPT4o',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-4o',
+    displayName: 'GPT-4o',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: CHAT_CAPABILITIES,
+    pricing: { kind: 'tokens', inputPerMillion: 2.5, outputPerMillion: 10 },
+  },
+  {
+    constant: 'GPT4oMini',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'gpt-4o-mini',
+    displayName: 'GPT-4o mini',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: CHAT_CAPABILITIES,
+    pricing: { kind: 'tokens', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  },
+  {
+    constant: 'O3',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'o3',
+    displayName: 'o3',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 2, outputPerMillion: 8 },
+  },
+  {
+    constant: 'O4Mini',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.chat`,
+    modelName: 'o4-mini',
+    displayName: 'o4-mini',
+    provider: 'openai',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  },
+  {
+    constant: 'DallE3',
+    module: `${FOUNDATION_MODELS_MODULE}.openai.image`,
+    modelName: 'dall-e-3',
+    displayName: 'DALL·E 3',
+    provider: 'openai',
+    functionalType: 'image_generation',
+    inputModalities: ['text'],
+    outputModalities: ['image'],
+    capabilities: ['image-generation'],
+    pricing: {
+      kind: 'image',
+      perImage: {
+        'standard 1024x1024': 0.04,
+        'standard 1024x1792': 0.08,
+        'standard 1792x1024': 0.08,
+        'hd 1024x1024': 0.08,
+        'hd 1024x1792': 0.12,
+        'hd 1792x1024': 0.12,
+      },
+    },
+  },
+
+  // Anthropic
+  {
+    constant: 'ClaudeOpus45',
+    module: `${FOUNDATION_MODELS_MODULE}.anthropic.chat`,
+    modelName: 'claude-opus-4-5',
+    displayName: 'Claude Opus 4.5',
+    provider: 'anthropic',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 5, outputPerMillion: 25 },
+  },
+  {
+    constant: 'ClaudeSonnet45',
+    module: `${FOUNDATION_MODELS_MODULE}.anthropic.chat`,
+    modelName: 'claude-sonnet-4-5',
+    displayName: 'Claude Sonnet 4.5',
+    provider: 'anthropic',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  {
+    constant: 'ClaudeHaiku45',
+    module: `${FOUNDATION_MODELS_MODULE}.anthropic.chat`,
+    modelName: 'claude-haiku-4-5',
+    displayName: 'Claude Haiku 4.5',
+    provider: 'anthropic',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 1, outputPerMillion: 5 },
+  },
+  {
+    constant: 'Claude37Sonnet',
+    module: `${FOUNDATION_MODELS_MODULE}.anthropic.chat`,
+    modelName: 'claude-3-7-sonnet',
+    displayName: 'Claude 3.7 Sonnet',
+    provider: 'anthropic',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  {
+    constant: 'Claude35Sonnet',
+    module: `${FOUNDATION_MODELS_MODULE}.anthropic.chat`,
+    modelName: 'claude-3-5-sonnet',
+    displayName: 'Claude 3.5 Sonnet',
+    provider: 'anthropic',
+    functionalType: 'text_generation',
+    contextWindow: 200_000,
+    maxOutputTokens: 8_192,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: CHAT_CAPABILITIES,
+    pricing: { kind: 'tokens', inputPerMillion: 3, outputPerMillion: 15 },
+  },
+
+  // Google AI
+  {
+    constant: 'Gemini25Pro',
+    module: `${FOUNDATION_MODELS_MODULE}.google.chat`,
+    modelName: 'gemini-2.5-pro',
+    displayName: 'Gemini 2.5 Pro',
+    provider: 'google',
+    functionalType: 'text_generation',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 1.25, outputPerMillion: 10 },
+  },
+  {
+    constant: 'Gemini25Flash',
+    module: `${FOUNDATION_MODELS_MODULE}.google.chat`,
+    modelName: 'gemini-2.5-flash',
+    displayName: 'Gemini 2.5 Flash',
+    provider: 'google',
+    functionalType: 'text_generation',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  },
+  {
+    constant: 'Gemini25FlashLite',
+    module: `${FOUNDATION_MODELS_MODULE}.google.chat`,
+    modelName: 'gemini-2.5-flash-lite',
+    displayName: 'Gemini 2.5 Flash-Lite',
+    provider: 'google',
+    functionalType: 'text_generation',
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning', ...CHAT_CAPABILITIES],
+    pricing: { kind: 'tokens', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  },
+  {
+    constant: 'Imagen3',
+    module: `${FOUNDATION_MODELS_MODULE}.google.image`,
+    modelName: 'imagen-3.0-generate',
+    displayName: 'Imagen 3',
+    provider: 'google',
+    functionalType: 'image_generation',
+    inputModalities: ['text'],
+    outputModalities: ['image'],
+    capabilities: ['image-generation'],
+    pricing: { kind: 'image', perImage: { standard: 0.03 } },
+  },
+
+  // DeepSeek
+  {
+    constant: 'DeepseekR1',
+    module: `${FOUNDATION_MODELS_MODULE}.deepseek.chat`,
+    modelName: 'deepseek-reasoner',
+    displayName: 'DeepSeek-R1',
+    provider: 'deepseek',
+    functionalType: 'text_generation',
+    contextWindow: 64_000,
+    maxOutputTokens: 8_192,
+    inputModalities: ['text'],
+    outputModalities: ['text'],
+    capabilities: ['reasoning'],
+    pricing: { kind: 'tokens', inputPerMillion: 0.55, outputPerMillion: 2.19 },
+  },
+  {
+    constant: 'DeepseekChat',
+    module: `${FOUNDATION_MODELS_MODULE}.deepseek.chat`,
+    modelName: 'deepseek-chat',
+    displayName: 'DeepSeek-V3',
+    provider: 'deepseek',
+    functionalType: 'text_generation',
+    contextWindow: 64_000,
+    maxOutputTokens: 8_192,
+    inputModalities: ['text'],
+    outputModalities: ['text'],
+    capabilities: ['tools', 'structured-output'],
+    pricing: { kind: 'tokens', inputPerMillion: 0.27, outputPerMillion: 1.1 },
+  },
+];
+
+/** The Python import statement for a model's constant. */
+export function modelImportStatement(model: FoundationModelInfo): string {
+  return `from ${model.module} import ${model.constant}`;
+}
@@ -0,0 +1,163 @@
+// The products documented on this site. The navbar, the footer, the homepage and the search filters are all generated
+// from this registry: adding a package or deprecating one only changes this file and the product's docs plugin
+// instance. Every route below is checked by the build (`onBrokenLinks: 'throw'`), and every sidebar ID by the navbar's
+// `docSidebar` items.
+
+export type ProductId = 'dhenara-ai' | 'dhenara-agent';
+
+export type ProductStatus = 'active' | 'deprecated';
+
+/** Icon keys, rendered by `src/components/ProductIcon`. */
+export type ProductIconKey =
+  | 'unified-api'
+  | 'streaming'
+  | 'usage'
+  | 'structured-output'
+  | 'artifacts'
+  | 'agent-dsl'
+  | 'observability'
+  | 'templates';
+
+export type ProductFeature = {
+  title: string;
+  description: string;
+  icon: ProductIconKey;
+};
+
+export type ProductLink = {
+  title: string;
+  description: string;
+  to: string;
+};
+
+export type Product = {
+  id: ProductId;
+  name: string;
+  status: ProductStatus;
+  /** One-line description, shown above the product's feature cards. */
+  summary: string;
+  /** ID of the docs plugin instance; omitted for the preset's default instance. */
+  docsPluginId?: string;
+  sidebarId: string;
+  /** Route every page of the product lives under. */
+  routeBasePath: string;
+  routes: {
+    introduction: string;
+    installation: string;
+    apiReference?: string;
+  };
+  /** PyPI package name. */
+  packageName: string;
+  /** Further entry points promoted on the homepage, after installation. */
+  highlights: ProductLink[];
+  features: ProductFeature[];
+};
+
+export const PRODUCTS: Product[] = [
+  {
+    id: 'dhenara-ai',
+    name: 'Dhenara AI',
+    status: 'active',
+    summary: 'Open-source Python package for streamlined LLM integration across multiple providers',
+    sidebarId: 'dhenaraAiSidebar',
+    routeBasePath: '/dhenara-ai',
+    routes: {
+      introduction: '/dhenara-ai/introduction',
+      installation: '/dhenara-ai/getting-started/installation',
+      apiReference: '/dhenara-ai/api-reference',
+    },
+    packageName: 'dhenara-ai',
+    highlights: [
+      {
+        title: 'Advanced Recipes',
+        description: 'Streaming + structured output + tools + artifacts — the “good stuff”.',
+        to: '/dhenara-ai/guides/advanced-recipes',
+      },
+    ],
+    features: [
+      {
+        title: 'Unified API, Simplified',
+        icon: 'unified-api',
+        description:
+          'Access multiple AI providers through a consistent interface. Seamlessly switch between models without code changes using our lightweight yet powerful package.',
+      },
+      {
+        title: 'Real-time Streaming',
+        icon: 'streaming',
+        description:
+          'First-class support for streaming responses with accumulated results, making real-time applications simple to build.',
+      },
+      {
+        title: 'Cost & Usage Tracking',
+        icon: 'usage',
+        description:
+          'Integrated token usage and cost tracking across all providers, with comprehensive analytics designed for both experimental and production applications.',
+      },
+      {
+        title: 'Structured Output + Tools',
+        icon: 'structured-output',
+        description:
+          'Get typed, validated outputs (Pydantic) and provider-agnostic tool calling without rewriting your app for each provider.',
+      },
+      {
+        title: 'Artifacts for Debugging',
+        icon: 'artifacts',
+        description:
+          'Capture normalized requests/responses and optional Python logs per call. Diagnose provider differences and validation failures fast.',
+      },
+    ],
+  },
+  {
+    id: 'dhenara-agent',
+    name: 'Agent DSL',
+    status: 'deprecated',
+    summary: 'Archived documentation for the legacy Dhenara Agent DSL (DAD).',
+    docsPluginId: 'dhenara-agent',
+    sidebarId: 'dhenaraAgentSidebar',
+    routeBasePath: '/dhenara-agent',
+    routes: {
+      introduction: '/dhenara-agent/introduction',
+      installation: '/dhenara-agent/getting-started/installation',
+    },
+    packageName: 'dhenara-agent',
+    highlights: [],
+    features: [
+      {
+        title: 'Intuitive Agent DSL',
+        icon: 'agent-dsl',
+        description:
+          'Build sophisticated agent workflows by composing reusable components with a clean, programming language-like approach.',
+      },
+      {
+        title: 'Comprehensive Observability',
+        icon: 'observability',
+        description:
+          'Free, built-in OpenTelemetry-based logging, tracing, and metrics collection for all agent activities, without subscriptions and payments.',
+      },
+      {
+        title: 'Powerful Template Engine',
+        icon: 'templates',
+        description:
+          'Create sophisticated prompts and operations with dynamic content using variable substitution, conditional expressions, and hierarchical references.',
+      },
+    ],
+  },
+];
+
+export const ACTIVE_PRODUCTS = PRODUCTS.filter(({ status }) => status === 'active');
+
+export const DEPRECATED_PRODUCTS = PRODUCTS.filter(({ status }) => status === 'deprecated');
+
+/** The product the homepage leads with. */
+export const PRIMARY_PRODUCT = ACTIVE_PRODUCTS[0];
+
+/** Navigation label, flagging deprecated products. */
+export function productLabel({ name, status }: Product): string {
+  return status === 'deprecated' ? `${name} (Deprecated)` : name;
+}
+
+/** The product a docs page belongs to, by its permalink; the base URL of localized builds (`/hi/`) is ignored. */
+export function productForPermalink(permalink: string, baseUrl = '/'): Product | undefined {
+  const route = permalink.startsWith(baseUrl) ? `/${permalink.slice(baseUrl.length)}` : permalink;
+  return PRODUCTS.find(({ routeBasePath }) => route === routeBasePath || route.startsWith(`${routeBasePath}/`));
+}
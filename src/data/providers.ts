@@ -0,0 +1,39 @@
+import type { ModelProvider } from './foundationModels';
+
+// How each model provider is reached through its own API: the `AIModelAPIProviderEnum` member to configure, the
+// environment variables the samples read credentials from, and the dhenara-ai extra installing its SDK.
+
+export type ProviderEnvVar = {
+  name: string;
+  description: string;
+};
+
+export type ProviderApi = {
+  /** `AIModelAPIProviderEnum` member. */
+  apiProvider: string;
+  envVars: ProviderEnvVar[];
+  /** Optional dependency group of the dhenara-ai package, e.g. `pip install "dhenara-ai[openai]"`. */
+  extra?: string;
+};
+
+export const PROVIDER_APIS: Record<ModelProvider, ProviderApi> = {
+  openai: {
+    apiProvider: 'OPEN_AI',
+    envVars: [{ name: 'OPENAI_API_KEY', description: 'API key from platform.openai.com' }],
+    extra: 'openai',
+  },
+  anthropic: {
+    apiProvider: 'ANTHROPIC',
+    envVars: [{ name: 'ANTHROPIC_API_KEY', description: 'API key from console.anthropic.com' }],
+    extra: 'anthropic',
+  },
+  google: {
+    apiProvider: 'GOOGLE_GEMINI_API',
+    envVars: [{ name: 'GOOGLE_API_KEY', description: 'Gemini API key from aistudio.google.com' }],
+    extra: 'google',
+  },
+  deepseek: {
+    apiProvider: 'DEEPSEEK',
+    envVars: [{ name: 'DEEPSEEK_API_KEY', description: 'API key from platform.deepseek.com' }],
+  },
+};
@@ -0,0 +1,46 @@
+// Routes that no longer exist, and where their readers should go instead. `plugins/redirects` serves a static
+// redirect page at each `from` route, fails the build when a `to` route does not exist, and reports the pages that
+// still link to a retired route.
+//
+// Routes are site paths, without the base URL. `to` may carry a `#anchor`.
+
+export type Redirect = {
+  from: string;
+  to: string;
+};
+
+// The pre-1.0 Dhenara AI guides, provider guides and foundation model pages, retired when the docs were reorganized
+// around features. `/dhenara-ai/api-reference/aimodelclient` is live again as a page of the generated API reference.
+const DHENARA_AI_REDIRECTS: Redirect[] = [
+  { from: '/dhenara-ai/guides/basic-usage', to: '/dhenara-ai/getting-started/quick-start' },
+  { from: '/dhenara-ai/guides/working-with-models', to: '/dhenara-ai/features/models' },
+  { from: '/dhenara-ai/guides/streaming-responses', to: '/dhenara-ai/features/streaming-simplified' },
+  { from: '/dhenara-ai/guides/provider-guides/openai', to: '/dhenara-ai/features/resource-configuration' },
+  { from: '/dhenara-ai/guides/provider-guides/google-ai', to: '/dhenara-ai/features/resource-configuration' },
+  { from: '/dhenara-ai/guides/provider-guides/anthropic', to: '/dhenara-ai/features/resource-configuration' },
+  { from: '/dhenara-ai/guides/provider-guides/deepseek', to: '/dhenara-ai/features/resource-configuration' },
+  { from: '/dhenara-ai/foundation-models/overview', to: '/dhenara-ai/features/models' },
+  { from: '/dhenara-ai/foundation-models/text-generation', to: '/dhenara-ai/samples/text-gen' },
+  { from: '/dhenara-ai/foundation-models/image-generation', to: '/dhenara-ai/samples/image-gen' },
+  {
+    from: '/dhenara-ai/foundation-models/custom-models',
+    to: '/dhenara-ai/features/models#creating-custom-foundation-models',
+  },
+];
+
+// The Agent DSL tutorials and coder examples, dropped before the Agent DSL was deprecated.
+const AGENT_DSL_REDIRECTS: Redirect[] = [
+  '/dhenara-agent/guides/tutorials',
+  '/dhenara-agent/guides/tutorials/single-shot-coder/part-1',
+  '/dhenara-agent/guides/tutorials/single-shot-coder/part-2',
+  '/dhenara-agent/guides/tutorials/single-shot-coder/part-3',
+  '/dhenara-agent/guides/tutorials/command-line-coder',
+  '/dhenara-agent/guides/tutorials/command-line-coder/part-1',
+  '/dhenara-agent/guides/tutorials/command-line-coder/part-2',
+  '/dhenara-agent/guides/tutorials/command-line-coder/part-3',
+  '/dhenara-agent/guides/tutorials/command-line-coder/part-4',
+  '/dhenara-agent/guides/examples/single-shot-coder',
+  '/dhenara-agent/guides/examples/auto-coder',
+].map((from) => ({ from, to: '/dhenara-agent/guides/examples' }));
+
+export const REDIRECTS: Redirect[] = [...DHENARA_AI_REDIRECTS, ...AGENT_DSL_REDIRECTS];
@@ -0,0 +1,99 @@
+import type { ProductId } from './products';
+
+// Release notes of the dhenara-ai package, newest first. `/dhenara-ai/release-notes` renders them, the homepage's
+// "What's new" strip shows the latest release, and the `added_in` / `changed_in` badges of doc pages and headings link
+// to them. Add the entry of a release when it is cut (`docs:version`); a version the docs already describe under
+// `next/` can be listed ahead of it with `unreleased: true`.
+
+/** The product the releases are of; only its docs may carry `added_in` / `changed_in` badges. */
+export const RELEASE_NOTES_PRODUCT: ProductId = 'dhenara-ai';
+
+/** Route of `src/pages/dhenara-ai/release-notes.tsx`. */
+export const RELEASE_NOTES_ROUTE = '/dhenara-ai/release-notes';
+
+export type ReleaseChangeType = 'added' | 'changed' | 'deprecated' | 'removed' | 'fixed';
+
+export type ReleaseChange = {
+  type: ReleaseChangeType;
+  /** One sentence; `code` spans are written in Markdown backticks. */
+  description: string;
+  /** Id of the Dhenara AI doc describing the change, in the docs of that release. */
+  doc?: string;
+};
+
+export type Release = {
+  /** Version as named in the docs versions (`1.0`), and in `added_in` / `changed_in` front matter. */
+  version: string;
+  /** Release date, `YYYY-MM-DD`. */
+  date?: string;
+  /** Listed ahead of its release: shown on the release notes page, but never as the latest release. */
+  unreleased?: boolean;
+  summary: string;
+  changes: ReleaseChange[];
+};
+
+export const RELEASES: Release[] = [
+  {
+    version: '1.0',
+    summary:
+      'The first stable release: conversations, structured output, tool calls and reasoning share one request and response shape across OpenAI, Anthropic, Google AI and DeepSeek.',
+    changes: [
+      {
+        type: 'added',
+        description:
+          'Messages API: pass the conversation as `messages` and append each response with `ChatResponse.to_message_item()`.',
+        doc: 'features/multi-turn-conversations',
+      },
+      {
+        type: 'added',
+        description: 'Structured output validated against a Pydantic model, on every provider.',
+        doc: 'guides/structured-output',
+      },
+      {
+        type: 'added',
+        description: 'Provider-agnostic tool and function calling, with tool calls and results kept in the history.',
+        doc: 'guides/tools-and-function-calling',
+      },
+      {
+        type: 'added',
+        description: 'Reasoning (thinking) content normalized into the response on the models that emit it.',
+        doc: 'features/reasoning',
+      },
+      {
+        type: 'added',
+        description: 'Per-call debug artifacts: the normalized and provider-formatted requests, responses and logs.',
+        doc: 'guides/artifacts-and-debugging',
+      },
+      {
+        type: 'deprecated',
+        description: 'The `context` argument of `generate()`; put the history in `messages` instead.',
+        doc: 'guides/legacy-context',
+      },
+    ],
+  },
+];
+
+/** The release the homepage announces: the newest one that is out. */
+export const LATEST_RELEASE: Release | undefined = RELEASES.find(({ unreleased }) => !unreleased);
+
+export function findRelease(version: string): Release | undefined {
+  return RELEASES.find((release) => release.version === version);
+}
+
+/**
+ * Name of the docs version whose pages the release's `doc` ids refer to: the version itself, or `current` for an
+ * unreleased one. Releases older than the versioned docs link to the latest version instead.
+ */
+export function releaseDocsVersion({ version, unreleased }: Release): string {
+  return unreleased ? 'current' : version;
+}
+
+/** Anchor of a release on the release notes page, e.g. `v1.0`. */
+export function releaseAnchor(version: string): string {
+  return `v${version}`;
+}
+
+/** Site path of a release's notes. */
+export function releaseNotesRoute(version: string): string {
+  return `${RELEASE_NOTES_ROUTE}#${releaseAnchor(version)}`;
+}
@@ -0,0 +1,103 @@
+import type { JsonSchema } from '../utils/jsonSchema';
+
+// Starting points of the structured output playground (`src/components/SchemaPlayground`): the
+// `model_json_schema()` of a model from the docs, and a model output to validate against it. The outputs carry the
+// kind of mistakes models make, so the playground opens on a `ValidationError` rather than a blank page.
+
+export type SchemaPlaygroundPresetId = 'product-review' | 'task-plan' | 'support-ticket';
+
+export type SchemaPlaygroundPreset = {
+  label: string;
+  /** `Model.model_json_schema()`, as Pydantic 2 generates it. */
+  schema: JsonSchema;
+  /** The text of the model's structured output. */
+  output: string;
+};
+
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+export const SCHEMA_PLAYGROUND_PRESETS: Record<SchemaPlaygroundPresetId, SchemaPlaygroundPreset> = {
+  // `guides/structured-output`
+  'product-review': {
+    label: 'ProductReview',
+    schema: {
+      $defs: {
+        ProductRatings: {
+          properties: {
+            rating: { maximum: 5, minimum: 1, title: 'Rating', type: 'integer' },
+            value_for_money_rating: { maximum: 5, minimum: 1, title: 'Value For Money Rating', type: 'integer' },
+          },
+          required: ['rating', 'value_for_money_rating'],
+          title: 'ProductRatings',
+          type: 'object',
+        },
+      },
+      properties: {
+        product_name: { title: 'Product Name', type: 'string' },
+        rating: { $ref: '#/$defs/ProductRatings' },
+        pros: { items: { type: 'string' }, title: 'Pros', type: 'array' },
+        cons: { items: { type: 'string' }, title: 'Cons', type: 'array' },
+        summary: { title: 'Summary', type: 'string' },
+      },
+      required: ['product_name', 'rating', 'pros', 'cons', 'summary'],
+      title: 'ProductReview',
+      type: 'object',
+    },
+    output: json({
+      product_name: 'iPhone 15 Pro Max',
+      rating: { rating: 6, value_for_money_rating: '4' },
+      pros: ['Titanium build', 'Excellent cameras', 'All-day battery'],
+      cons: 'Expensive',
+    }),
+  },
+  // `guides/advanced-recipes`
+  'task-plan': {
+    label: 'TaskPlan',
+    schema: {
+      properties: {
+        title: { title: 'Title', type: 'string' },
+        steps: { items: { type: 'string' }, minItems: 1, title: 'Steps', type: 'array' },
+      },
+      required: ['title', 'steps'],
+      title: 'TaskPlan',
+      type: 'object',
+    },
+    output: json({ title: 'Migrate from Flask to Django', steps: [] }),
+  },
+  // Enums, optional fields, constraints and a forbidden extra field.
+  'support-ticket': {
+    label: 'SupportTicket',
+    schema: {
+      $defs: {
+        Priority: { enum: ['low', 'normal', 'urgent'], title: 'Priority', type: 'string' },
+      },
+      additionalProperties: false,
+      description: 'A customer email, triaged.',
+      properties: {
+        subject: { maxLength: 80, title: 'Subject', type: 'string' },
+        priority: { $ref: '#/$defs/Priority' },
+        customer_email: { format: 'email', title: 'Customer Email', type: 'string' },
+        order_id: {
+          anyOf: [{ pattern: '^ORD-\\d{6}$', type: 'string' }, { type: 'null' }],
+          default: null,
+          description: 'Only when the email names an order.',
+          title: 'Order Id',
+        },
+        tags: { items: { type: 'string' }, maxItems: 3, title: 'Tags', type: 'array' },
+      },
+      required: ['subject', 'priority', 'customer_email', 'tags'],
+      title: 'SupportTicket',
+      type: 'object',
+    },
+    output: json({
+      subject: 'Refund for a damaged blender',
+      priority: 'high',
+      customer_email: 'sam@example.com',
+      order_id: 'ORD-12345',
+      tags: ['refund', 'damaged'],
+      sentiment: 'negative',
+    }),
+  },
+};
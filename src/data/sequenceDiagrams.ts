@@ -0,0 +1,128 @@
+// Sequence diagrams of the docs' multi-step call flows, rendered by `src/components/SequenceDiagram` (with a text
+// version for screen readers and `llms.txt`). Labels are one line each; `code` spans are written in Markdown backticks.
+
+export type SequenceDiagramId = 'tool-call-round-trip' | 'multi-turn-messages' | 'dad-run';
+
+export type SequenceParticipant = {
+  id: string;
+  label: string;
+};
+
+export type SequenceStep =
+  | {
+      kind: 'message';
+      from: string;
+      to: string;
+      label: string;
+      /** A response to an earlier message, drawn dashed. */
+      reply?: boolean;
+    }
+  | { kind: 'note'; over: string[]; text: string }
+  | { kind: 'loop'; label: string; steps: SequenceStep[] };
+
+export type SequenceDiagram = {
+  title: string;
+  /** Participants from left to right. */
+  participants: SequenceParticipant[];
+  steps: SequenceStep[];
+};
+
+function message(from: string, to: string, label: string): SequenceStep {
+  return { kind: 'message', from, to, label };
+}
+
+function reply(from: string, to: string, label: string): SequenceStep {
+  return { kind: 'message', from, to, label, reply: true };
+}
+
+function note(over: string | string[], text: string): SequenceStep {
+  return { kind: 'note', over: typeof over === 'string' ? [over] : over, text };
+}
+
+function loop(label: string, ...steps: SequenceStep[]): SequenceStep {
+  return { kind: 'loop', label, steps };
+}
+
+export const SEQUENCE_DIAGRAMS: Record<SequenceDiagramId, SequenceDiagram> = {
+  // `guides/tools-and-function-calling`
+  'tool-call-round-trip': {
+    title: 'Tool call round trip',
+    participants: [
+      { id: 'app', label: 'Your code' },
+      { id: 'client', label: 'AIModelClient' },
+      { id: 'provider', label: 'Provider API' },
+      { id: 'tools', label: 'Your tools' },
+    ],
+    steps: [
+      message('app', 'client', '`generate(messages=messages)` with `tools=[get_weather_tool]`'),
+      message('client', 'provider', 'Request with the tools in the provider format'),
+      reply('provider', 'client', 'Response with a tool call'),
+      reply('client', 'app', '`ChatResponse` with a `tool_call` content item'),
+      message('app', 'app', '`messages.append(chat.to_message_item())`'),
+      loop(
+        'for each tool call',
+        message('app', 'tools', '`TOOL_REGISTRY[call.name](**call.arguments)`'),
+        reply('tools', 'app', 'Result'),
+        message('app', 'app', '`messages.append(ToolCallResult(call_id=call.call_id, ...))`')
+      ),
+      message('app', 'client', '`generate(messages=messages)`'),
+      message('client', 'provider', 'Request with the tool call and its result'),
+      note('provider', 'Each result must follow the call with its `call_id`'),
+      reply('provider', 'client', 'Final answer'),
+      reply('client', 'app', '`ChatResponse` with text'),
+    ],
+  },
+  // `features/multi-turn-conversations`
+  'multi-turn-messages': {
+    title: 'Multi-turn message assembly',
+    participants: [
+      { id: 'app', label: 'Your code' },
+      { id: 'messages', label: 'messages' },
+      { id: 'client', label: 'AIModelClient' },
+      { id: 'provider', label: 'Provider API' },
+    ],
+    steps: [
+      loop(
+        'for each user turn',
+        message('app', 'messages', 'append `Prompt.with_text(user_text)`'),
+        message('app', 'client', '`generate(messages=messages, instructions=[...])`'),
+        message('client', 'provider', 'The whole history, converted to the provider format'),
+        reply('provider', 'client', 'Assistant reply'),
+        reply('client', 'app', '`ChatResponse`'),
+        message('app', 'messages', 'append `chat.to_message_item()`'),
+        note('messages', 'Two items longer per turn')
+      ),
+    ],
+  },
+  // `architecture/execution-model` of the Agent DSL
+  'dad-run': {
+    title: 'An Agent DSL run',
+    participants: [
+      { id: 'app', label: 'Your code / CLI' },
+      { id: 'run', label: 'RunContext' },
+      { id: 'runner', label: 'FlowRunner' },
+      { id: 'context', label: 'ExecutionContext' },
+      { id: 'node', label: 'Node executor' },
+    ],
+    steps: [
+      message('app', 'run', '`RunContext(root_component_id, project_root)`'),
+      message('app', 'run', '`setup_run(run_id_prefix)`'),
+      note('run', 'Creates the run directory, starts observability'),
+      message('app', 'runner', '`await FlowRunner(flow, run_context).run()`'),
+      message('runner', 'context', 'Create the execution context'),
+      loop(
+        'for each node, in flow order',
+        message('runner', 'node', 'Execute the node with its context'),
+        message('node', 'context', 'Resolve `$var{}` and `$hier{}` references'),
+        message('node', 'run', 'Emit `node_input_required`'),
+        message('run', 'app', 'Call the registered input handler'),
+        reply('app', 'run', '`event.input`'),
+        reply('run', 'node', 'Node input'),
+        message('node', 'node', 'Run the node (e.g. an AI model call)'),
+        message('node', 'context', 'Store the `NodeOutcome`'),
+        message('node', 'run', 'Write the node artifacts')
+      ),
+      reply('runner', 'app', 'Execution results'),
+    ],
+  },
+};
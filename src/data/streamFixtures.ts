@@ -0,0 +1,100 @@
+// Recorded streams replayed by `src/components/StreamReplay` on the streaming docs. Each step is one item of
+// `response.stream_generator`: a `(chunk, None)` pair carrying the content deltas of choice 0, then the final
+// `(None, final_response)` pair with the usage. The deltas are split the way providers send them: text in short runs,
+// tool call arguments as JSON fragments.
+
+export type StreamFixtureId = 'text' | 'reasoning-and-tools';
+
+export type StreamContentDelta =
+  | { type: 'reasoning'; thinking_text_delta: string }
+  | { type: 'text'; text_delta: string }
+  | {
+      type: 'tool_call';
+      /** `name` is only sent with the first delta of a call; the arguments arrive as JSON fragments. */
+      tool_call_delta: { call_id: string; name: string | null; arguments_delta: string };
+    };
+
+export type StreamUsage = {
+  total_tokens: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens: number | null;
+};
+
+export type StreamStep =
+  | { kind: 'chunk'; content_deltas: StreamContentDelta[] }
+  | { kind: 'final'; usage: StreamUsage };
+
+export type StreamFixture = {
+  /** `model_name` of the foundation model the stream was recorded from. */
+  model: string;
+  prompt: string;
+  /** The `AIModelCallConfig` arguments of the call. */
+  config: string;
+  steps: StreamStep[];
+};
+
+function text(...deltas: string[]): StreamStep[] {
+  return deltas.map((delta) => ({ kind: 'chunk', content_deltas: [{ type: 'text', text_delta: delta }] }));
+}
+
+function reasoning(...deltas: string[]): StreamStep[] {
+  return deltas.map((delta) => ({
+    kind: 'chunk',
+    content_deltas: [{ type: 'reasoning', thinking_text_delta: delta }],
+  }));
+}
+
+function toolCall(callId: string, name: string, ...argumentDeltas: string[]): StreamStep[] {
+  return argumentDeltas.map((delta, index) => ({
+    kind: 'chunk',
+    content_deltas: [
+      {
+        type: 'tool_call',
+        tool_call_delta: { call_id: callId, name: index === 0 ? name : null, arguments_delta: delta },
+      },
+    ],
+  }));
+}
+
+function final(usage: Omit<StreamUsage, 'total_tokens'>): StreamStep {
+  return { kind: 'final', usage: { total_tokens: usage.prompt_tokens + usage.completion_tokens, ...usage } };
+}
+
+export const STREAM_FIXTURES: Record<StreamFixtureId, StreamFixture> = {
+  text: {
+    model: 'gpt-5-mini',
+    prompt: 'Explain quantum computing in one paragraph.',
+    config: 'streaming=True, reasoning=False, max_output_tokens=400',
+    steps: [
+      ...text(
+        'Quantum computing uses',
+        ' qubits, which can exist',
+        ' in a superposition of 0 and 1',
+        ' and become entangled with one another.',
+        ' By manipulating these states with quantum gates',
+        ' and letting their amplitudes interfere,',
+        ' a quantum computer can solve certain problems',
+        ' (such as factoring large numbers or simulating molecules)',
+        ' far faster than classical machines,',
+        " though today's hardware is still small and error-prone."
+      ),
+      final({ prompt_tokens: 24, completion_tokens: 71, reasoning_tokens: null }),
+    ],
+  },
+  'reasoning-and-tools': {
+    model: 'claude-sonnet-4-5',
+    prompt: "What's the weather in Paris right now?",
+    config: 'streaming=True, reasoning=True, tools=[get_weather_tool]',
+    steps: [
+      ...reasoning(
+        'The user wants the current weather in Paris.',
+        ' I have a get_weather tool that takes a location and a unit.',
+        ' Paris is in France, which uses Celsius, so I will ask for celsius.'
+      ),
+      ...text("I'll check the current weather in Paris for you."),
+      ...toolCall('toolu_01A9cX4mPq', 'get_weather', '', '{"location": "Par', 'is, France", "unit": ', '"celsius"}'),
+      final({ prompt_tokens: 412, completion_tokens: 138, reasoning_tokens: 64 }),
+    ],
+  },
+};
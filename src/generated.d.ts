@@ -0,0 +1,29 @@
+// Data modules emitted by the local plugins under `plugins/` into the generated files directory.
+
+declare module '@generated/dhenara-search-index/default/search-index.json' {
+  import type { SearchIndex } from '../plugins/search-index/types';
+
+  const index: SearchIndex;
+  export default index;
+}
+
+declare module '@generated/dhenara-pyodide-runtime/default/runtime.json' {
+  import type { PyodideRuntimeManifest } from '../plugins/pyodide-runtime/types';
+
+  const manifest: PyodideRuntimeManifest;
+  export default manifest;
+}
+
+declare module '@generated/dhenara-translation-status/default/translation-status.json' {
+  import type { TranslationStatus } from '../plugins/translation-status/types';
+
+  const status: TranslationStatus;
+  export default status;
+}
+
+declare module '@generated/dhenara-example-sources/default/example-sources.json' {
+  import type { ExampleSources } from '../plugins/example-sources/types';
+
+  const sources: ExampleSources;
+  export default sources;
+}
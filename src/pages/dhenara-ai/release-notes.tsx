@@ -0,0 +1,23 @@
+import React, { JSX } from 'react';
+import Layout from '@theme/Layout';
+import Translate, { translate } from '@docusaurus/Translate';
+import ReleaseNotes from '../../components/ReleaseNotes';
+
+export default function ReleaseNotesPage(): JSX.Element {
+  return (
+    <Layout
+      title={translate({ id: 'releaseNotes.title', message: 'Dhenara AI release notes' })}
+      description={translate({
+        id: 'releaseNotes.description',
+        message: 'What was added, changed, deprecated and fixed in each release of the dhenara-ai package',
+      })}
+    >
+      <main className="container margin-vert--lg">
+        <h1>
+          <Translate id="releaseNotes.title">Dhenara AI release notes</Translate>
+        </h1>
+        <ReleaseNotes />
+      </main>
+    </Layout>
+  );
+}
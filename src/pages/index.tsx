@@ -2,6 +2,7 @@ import React, { JSX } from 'react';
 import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
 import Layout from '@theme/Layout';
 import HomepageContent from '../components/HomepageContent';
+import { PRODUCTS } from '../data/products';
 
 export default function Home(): JSX.Element {
   const { siteConfig } = useDocusaurusContext();
@@ -9,7 +10,7 @@ export default function Home(): JSX.Element {
   return (
     <Layout
       title={`${siteConfig.title}`}
-      description="Documentation for Dhenara AI (active) and Dhenara Agent DSL (deprecated)"
+      description={`Documentation for ${PRODUCTS.map(({ name, status }) => `${name} (${status})`).join(' and ')}`}
     >
       <HomepageContent />
     </Layout>
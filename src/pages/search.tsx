@@ -0,0 +1,30 @@
+import React, { JSX } from 'react';
+import Layout from '@theme/Layout';
+import { translate } from '@docusaurus/Translate';
+import { useSearchQueryString } from '@docusaurus/theme-common';
+import SearchResults from '../components/SearchResults';
+
+export default function SearchPage(): JSX.Element {
+  const [query, setQuery] = useSearchQueryString();
+
+  return (
+    <Layout
+      title={translate({ id: 'search.page.title', message: 'Search' })}
+      description={translate({ id: 'search.page.description', message: 'Search the Dhenara documentation' })}
+    >
+      <main className="container margin-vert--lg">
+        <h1>{translate({ id: 'search.page.heading', message: 'Search the documentation' })}</h1>
+        <input
+          className="search-page-input"
+          type="search"
+          placeholder={translate({ id: 'search.placeholder', message: 'Search docs' })}
+          aria-label={translate({ id: 'search.placeholder', message: 'Search docs' })}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          autoFocus
+        />
+        <SearchResults query={query} />
+      </main>
+    </Layout>
+  );
+}
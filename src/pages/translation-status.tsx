@@ -0,0 +1,29 @@
+import React, { JSX } from 'react';
+import Layout from '@theme/Layout';
+import Translate, { translate } from '@docusaurus/Translate';
+import TranslationStatus from '../components/TranslationStatus';
+
+export default function TranslationStatusPage(): JSX.Element {
+  return (
+    <Layout
+      title={translate({ id: 'translationStatus.title', message: 'Translation status' })}
+      description={translate({
+        id: 'translationStatus.description',
+        message: 'Which Dhenara docs pages are translated, outdated or missing in each language',
+      })}
+    >
+      <main className="container margin-vert--lg">
+        <h1>
+          <Translate id="translationStatus.title">Translation status</Translate>
+        </h1>
+        <p>
+          <Translate id="translationStatus.intro">
+            Pages without a translation are shown in English. A translation is outdated when its English page changed
+            after it was last updated.
+          </Translate>
+        </p>
+        <TranslationStatus />
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,13 @@
+import React, { JSX } from 'react';
+import CopyButton from '@theme-original/CodeBlock/CopyButton';
+import type CopyButtonType from '@theme/CodeBlock/CopyButton';
+import type { WrapperProps } from '@docusaurus/types';
+import { useCodeAnnotations } from '@site/src/components/CodeAnnotations';
+
+type Props = WrapperProps<typeof CopyButtonType>;
+
+// Annotated code blocks copy their code without the removed diff lines.
+export default function CopyButtonWrapper(props: Props): JSX.Element {
+  const annotations = useCodeAnnotations();
+  return <CopyButton {...props} code={annotations?.code ?? props.code} />;
+}
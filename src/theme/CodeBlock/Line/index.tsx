@@ -0,0 +1,50 @@
+import React, { JSX } from 'react';
+import Line from '@theme-original/CodeBlock/Line';
+import type LineType from '@theme/CodeBlock/Line';
+import type { WrapperProps } from '@docusaurus/types';
+import type { Token, TokenOutputProps } from 'prism-react-renderer';
+import { CalloutMarker, ImportsToggle, useCodeAnnotations } from '@site/src/components/CodeAnnotations';
+import { FOLDED_IMPORT_CLASS_NAME, FOLD_SUMMARY_CLASS_NAME, calloutNumber } from '@site/src/utils/codeAnnotations';
+
+type Props = WrapperProps<typeof LineType>;
+
+// Lines of annotated code blocks: folded import lines are replaced by their toggle, and a callout's marker is rendered
+// as an extra token, so that it stays on its line.
+export default function LineWrapper(props: Props): JSX.Element | null {
+  const annotations = useCodeAnnotations();
+  const classNames = props.classNames ?? [];
+  if (!annotations) {
+    return <Line {...props} />;
+  }
+
+  const summary = classNames.includes(FOLD_SUMMARY_CLASS_NAME);
+  if (annotations.importsFolded && classNames.includes(FOLDED_IMPORT_CLASS_NAME)) {
+    return summary ? <ImportsToggle /> : null;
+  }
+
+  const number = calloutNumber(classNames);
+  const { callouts } = annotations;
+  if (number === undefined || callouts === undefined) {
+    return (
+      <>
+        {summary && <ImportsToggle />}
+        <Line {...props} />
+      </>
+    );
+  }
+  const marker: Token = { types: ['plain'], content: '' };
+  return (
+    <>
+      {summary && <ImportsToggle />}
+      <Line
+        {...props}
+        line={[...props.line, marker]}
+        getTokenProps={(input) =>
+          input.token === marker
+            ? ({ children: <CalloutMarker callouts={callouts} number={number} /> } as unknown as TokenOutputProps)
+            : props.getTokenProps(input)
+        }
+      />
+    </>
+  );
+}
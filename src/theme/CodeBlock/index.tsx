@@ -0,0 +1,64 @@
+import React, { JSX, useState } from 'react';
+import { useLocation } from '@docusaurus/router';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import CodeBlock from '@theme-original/CodeBlock';
+import type CodeBlockType from '@theme/CodeBlock';
+import type { WrapperProps } from '@docusaurus/types';
+import { CodeAnnotationsProvider } from '@site/src/components/CodeAnnotations';
+import JsonLd from '@site/src/components/JsonLd';
+import TestModeRunner from '@site/src/components/TestModeRunner';
+import { productForPermalink } from '@site/src/data/products';
+import { parseCodeAnnotations } from '@site/src/utils/codeAnnotations';
+import { PARTIAL_META_FLAG } from '@site/src/utils/pythonSnippets';
+import { absoluteUrl, softwareSourceCode } from '@site/src/utils/structuredData';
+import { RUNNABLE_META_FLAG } from '@site/src/utils/testModeRunner';
+
+type Props = WrapperProps<typeof CodeBlockType>;
+
+// Languages whose code blocks on product pages are published as SoftwareSourceCode JSON-LD.
+const SAMPLE_LANGUAGES: Record<string, string> = { python: 'Python' };
+
+function codeLanguage({ language, className }: Props): string | undefined {
+  return language ?? /language-(\S+)/.exec(className ?? '')?.[1];
+}
+
+// ```python runnable blocks get a "Run in test mode" runner below the code. Annotated blocks (see
+// `plugins/remark-code-annotations`) run, copy and publish their code without the removed diff lines.
+export default function CodeBlockWrapper(props: Props): JSX.Element {
+  const { siteConfig } = useDocusaurusContext();
+  const { pathname } = useLocation();
+  const flags = (props.metastring ?? '').split(/\s+/);
+  const runnable = flags.includes(RUNNABLE_META_FLAG);
+  const product = productForPermalink(pathname, siteConfig.baseUrl);
+  const sampleLanguage = SAMPLE_LANGUAGES[codeLanguage(props) ?? ''];
+  const source = typeof props.children === 'string' ? props.children : undefined;
+  const annotations = source !== undefined ? parseCodeAnnotations(source, props.metastring) : undefined;
+  const code = annotations?.code ?? source;
+  const [importsFolded, setImportsFolded] = useState(true);
+
+  return (
+    <>
+      {annotations ? (
+        <CodeAnnotationsProvider
+          value={{ ...annotations, importsFolded, toggleImports: () => setImportsFolded(!importsFolded) }}
+        >
+          <CodeBlock {...props} />
+        </CodeAnnotationsProvider>
+      ) : (
+        <CodeBlock {...props} />
+      )}
+      {runnable && code !== undefined && <TestModeRunner code={code} />}
+      {product && sampleLanguage && code !== undefined && !flags.includes(PARTIAL_META_FLAG) && (
+        <JsonLd
+          data={softwareSourceCode({
+            code,
+            language: sampleLanguage,
+            title: props.title,
+            pageUrl: absoluteUrl(siteConfig.url, pathname),
+            product,
+          })}
+        />
+      )}
+    </>
+  );
+}
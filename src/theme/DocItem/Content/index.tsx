@@ -1,41 +1,133 @@
 import React, { JSX } from 'react';
-import Head from '@docusaurus/Head';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
 import Admonition from '@theme/Admonition';
-import { useLocation } from '@docusaurus/router';
+import { useDoc, useDocsVersion, useVersions } from '@docusaurus/plugin-content-docs/client';
 
 import Content from '@theme-original/DocItem/Content';
 import type ContentType from '@theme/DocItem/Content';
 import type { WrapperProps } from '@docusaurus/types';
+import AgentMigrationPanel from '@site/src/components/AgentMigrationPanel';
+import CopyPageMarkdown from '@site/src/components/CopyPageMarkdown';
+import VersionBadge from '@site/src/components/VersionBadge';
+import { AGENT_DOCS_PLUGIN_ID, findAgentMigration } from '@site/src/data/agentMigration';
+import {
+  getDeprecation,
+  isReplacementPath,
+  type Deprecation,
+  type DeprecationFrontMatter,
+} from '@site/src/utils/deprecation';
+import { TRANSLATION_STATUS_ROUTE, isTranslatedSource } from '@site/src/utils/i18n';
+import { getVersionBadges, type VersionFrontMatter } from '@site/src/utils/versionBadges';
 
 type Props = WrapperProps<typeof ContentType>;
 
-function DeprecatedAgentBanner() {
+type ReplacementLink = {
+  to: string;
+  label: string;
+};
+
+// A doc id replacement resolves within the version being viewed, so older versions keep linking to their own pages.
+function useReplacementLink({ replacement, replacementTitle }: Deprecation): ReplacementLink | null {
+  const version = useDocsVersion();
+  const globalVersion = useVersions(version.pluginId).find(({ name }) => name === version.version);
+  if (!replacement) {
+    return null;
+  }
+  if (isReplacementPath(replacement)) {
+    return { to: replacement, label: replacementTitle ?? replacement };
+  }
+  const doc = globalVersion?.docs.find(({ id }) => id === replacement);
+  if (!doc) {
+    throw new Error(`Deprecation replacement "${replacement}" is not a doc of version "${version.version}".`);
+  }
+  return { to: doc.path, label: replacementTitle ?? version.docs[replacement]?.title ?? replacement };
+}
+
+function DeprecationBanner({ deprecation }: { deprecation: Deprecation }) {
+  const replacement = useReplacementLink(deprecation);
+  const title = deprecation.since
+    ? translate(
+        { id: 'docs.deprecation.titleSince', message: 'Deprecated since {since}' },
+        { since: deprecation.since }
+      )
+    : translate({ id: 'docs.deprecation.title', message: 'Deprecated' });
+
   return (
-    <Admonition type="caution" title="Deprecated: Dhenara Agent DSL (DAD)">
-      <p>This documentation is for the legacy Dhenara Agent DSL package. It is no longer actively developed.</p>
+    <Admonition type="caution" title={title}>
       <p>
-        For new projects, start with <a href="/dhenara-ai/introduction">Dhenara AI</a>. Existing users may continue
-        using Agent DSL as-is.
+        {deprecation.reason ??
+          translate({ id: 'docs.deprecation.reason', message: 'This page documents a deprecated feature.' })}
+      </p>
+      {replacement && (
+        <p>
+          <Translate
+            id="docs.deprecation.replacement"
+            values={{ replacement: <Link to={replacement.to}>{replacement.label}</Link> }}
+          >
+            {'For new code, see {replacement}.'}
+          </Translate>
+        </p>
+      )}
+    </Admonition>
+  );
+}
+
+// Shown in the other locales on docs without a translation, which are served in English.
+function TranslationFallbackNotice() {
+  const { i18n } = useDocusaurusContext();
+  const language = i18n.localeConfigs[i18n.currentLocale]?.label ?? i18n.currentLocale;
+
+  return (
+    <Admonition type="note" title={<Translate id="docs.translationFallback.title">Not translated yet</Translate>}>
+      <p>
+        <Translate
+          id="docs.translationFallback.body"
+          values={{
+            language,
+            status: (
+              <Link to={TRANSLATION_STATUS_ROUTE}>
+                <Translate id="docs.translationFallback.statusLink">translation status</Translate>
+              </Link>
+            ),
+          }}
+        >
+          {'This page is not available in {language} yet, so it is shown in English. See the {status} of the docs.'}
+        </Translate>
       </p>
     </Admonition>
   );
 }
 
 export default function ContentWrapper(props: Props): JSX.Element {
-  const { pathname } = useLocation();
-  const isAgentDocs = pathname === '/dhenara-agent' || pathname.startsWith('/dhenara-agent/');
+  const { i18n } = useDocusaurusContext();
+  const { frontMatter, metadata } = useDoc();
+  const { pluginId } = useDocsVersion();
+  const deprecation = getDeprecation(frontMatter as DeprecationFrontMatter);
+  const versionBadges = getVersionBadges(frontMatter as VersionFrontMatter);
+  const migration = pluginId === AGENT_DOCS_PLUGIN_ID ? findAgentMigration(metadata.id) : undefined;
+  const untranslated =
+    i18n.currentLocale !== i18n.defaultLocale && !isTranslatedSource(metadata.source, i18n.currentLocale);
 
   return (
     <>
-      {isAgentDocs && (
-        <>
-          <Head>
-            <meta name="robots" content="noindex,nofollow" />
-          </Head>
-          <div className="margin-bottom--md">
-            <DeprecatedAgentBanner />
-          </div>
-        </>
+      {untranslated && (
+        <div className="margin-bottom--md">
+          <TranslationFallbackNotice />
+        </div>
+      )}
+      {deprecation && (
+        <div className="margin-bottom--md">
+          <DeprecationBanner deprecation={deprecation} />
+        </div>
+      )}
+      {migration && <AgentMigrationPanel migration={migration} />}
+      <CopyPageMarkdown permalink={metadata.permalink} />
+      {versionBadges && (
+        <div className="doc-version-badges">
+          <VersionBadge {...versionBadges} />
+        </div>
       )}
       <Content {...props} />
     </>
@@ -0,0 +1,103 @@
+import React, { JSX } from 'react';
+import Head from '@docusaurus/Head';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import { useBaseUrlUtils } from '@docusaurus/useBaseUrl';
+import {
+  useDoc,
+  useDocsVersion,
+  useLatestVersion,
+  useSidebarBreadcrumbs,
+} from '@docusaurus/plugin-content-docs/client';
+
+import Metadata from '@theme-original/DocItem/Metadata';
+import type MetadataType from '@theme/DocItem/Metadata';
+import type { WrapperProps } from '@docusaurus/types';
+import JsonLd from '@site/src/components/JsonLd';
+import { productForPermalink, productLabel } from '@site/src/data/products';
+import { getDeprecation, isNoIndex, type DeprecationFrontMatter } from '@site/src/utils/deprecation';
+import { ogImagePath } from '@site/src/utils/ogImage';
+import { absoluteUrl, breadcrumbList, techArticle, type Crumb } from '@site/src/utils/structuredData';
+
+type Props = WrapperProps<typeof MetadataType>;
+
+// Site → product → sidebar categories → page, for BreadcrumbList JSON-LD. Categories without a page of their own have
+// no URL and are skipped.
+function useCrumbs(): Crumb[] {
+  const { siteConfig } = useDocusaurusContext();
+  const { withBaseUrl } = useBaseUrlUtils();
+  const { metadata } = useDoc();
+  const sidebarCrumbs = useSidebarBreadcrumbs() ?? [];
+  const product = productForPermalink(metadata.permalink, siteConfig.baseUrl);
+
+  const crumbs: Crumb[] = [{ name: siteConfig.title, url: absoluteUrl(siteConfig.url, withBaseUrl('/')) }];
+  if (product) {
+    crumbs.push({
+      name: productLabel(product),
+      url: absoluteUrl(siteConfig.url, withBaseUrl(product.routes.introduction)),
+    });
+  }
+  for (const item of sidebarCrumbs) {
+    const url = item.href ? absoluteUrl(siteConfig.url, item.href) : undefined;
+    if (url && !crumbs.some((crumb) => crumb.url === url)) {
+      crumbs.push({ name: item.label, url });
+    }
+  }
+  // Pages outside the sidebar still end the trail.
+  const url = absoluteUrl(siteConfig.url, metadata.permalink);
+  if (crumbs[crumbs.length - 1].url !== url) {
+    crumbs.push({ name: metadata.title, url });
+  }
+  return crumbs;
+}
+
+/**
+ * Per-page SEO on top of the theme's title, description and keywords: a canonical URL pointing at the latest version
+ * of the page, the generated social card, the `noindex` robots tag, and TechArticle and BreadcrumbList JSON-LD.
+ */
+export default function MetadataWrapper(props: Props): JSX.Element {
+  const { siteConfig, i18n } = useDocusaurusContext();
+  const { metadata, frontMatter } = useDoc();
+  const version = useDocsVersion();
+  const latestVersion = useLatestVersion(version.pluginId);
+  const crumbs = useCrumbs();
+  const product = productForPermalink(metadata.permalink, siteConfig.baseUrl);
+
+  // Older and unreleased versions of a page point search engines at its latest release, when it has one.
+  const latestDoc = version.isLast ? undefined : latestVersion.docs.find(({ id }) => id === metadata.id);
+  const url = absoluteUrl(siteConfig.url, metadata.permalink);
+  // The build renders a social card for every doc page (`plugins/og-images`); a front matter `image` takes precedence.
+  const image = frontMatter.image
+    ? undefined
+    : absoluteUrl(siteConfig.url, ogImagePath(metadata.permalink, siteConfig.baseUrl));
+
+  return (
+    <>
+      <Metadata {...props} />
+      <Head>
+        {image && <meta property="og:image" content={image} />}
+        {image && <meta name="twitter:image" content={image} />}
+        {latestDoc && <link rel="canonical" href={absoluteUrl(siteConfig.url, latestDoc.path)} />}
+        {/* The sitemap plugin skips pages with a `noindex` robots meta tag. */}
+        {isNoIndex(frontMatter as DeprecationFrontMatter) && <meta name="robots" content="noindex,nofollow" />}
+      </Head>
+      {product && (
+        <JsonLd
+          data={techArticle({
+            title: metadata.title,
+            description: metadata.description,
+            keywords: frontMatter.keywords,
+            url,
+            product,
+            version: version.label,
+            locale: i18n.currentLocale,
+            lastUpdatedAt: metadata.lastUpdatedAt ?? undefined,
+            deprecated: getDeprecation(frontMatter as DeprecationFrontMatter) !== null,
+            siteTitle: siteConfig.title,
+            siteUrl: siteConfig.url,
+          })}
+        />
+      )}
+      <JsonLd data={breadcrumbList(crumbs)} />
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { JSX, useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Link from '@docusaurus/Link';
+import { translate } from '@docusaurus/Translate';
+import SearchResults from '@site/src/components/SearchResults';
+import './styles.css';
+
+const MODAL_HIT_LIMIT = 12;
+
+function SearchModal({ onClose }: { onClose: () => void }) {
+  const [query, setQuery] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return createPortal(
+    <div className="search-modal-backdrop" onClick={onClose}>
+      <div
+        className="search-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label={translate({ id: 'search.modal.label', message: 'Search the docs' })}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          className="search-modal-input"
+          type="search"
+          placeholder={translate({ id: 'search.placeholder', message: 'Search docs' })}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+        />
+        <div className="search-modal-body">
+          <SearchResults query={query} limit={MODAL_HIT_LIMIT} onNavigate={onClose} />
+        </div>
+        <div className="search-modal-footer">
+          <Link to={`/search?q=${encodeURIComponent(query)}`} onClick={onClose}>
+            {translate({ id: 'search.modal.seeAll', message: 'See all results' })}
+          </Link>
+          <span>{translate({ id: 'search.modal.close', message: 'Esc to close' })}</span>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default function SearchBar(): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const close = useCallback(() => setOpen(false), []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return (
+    <>
+      <button
+        type="button"
+        className="search-bar-button"
+        onClick={() => setOpen(true)}
+        aria-label={translate({ id: 'search.button', message: 'Search' })}
+      >
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="11" cy="11" r="7"></circle>
+          <path d="M21 21l-4.35-4.35"></path>
+        </svg>
+        <span className="search-bar-placeholder">{translate({ id: 'search.button', message: 'Search' })}</span>
+        <kbd className="search-bar-shortcut">Ctrl K</kbd>
+      </button>
+      {open && <SearchModal onClose={close} />}
+    </>
+  );
+}
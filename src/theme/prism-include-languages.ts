@@ -0,0 +1,22 @@
+import prismIncludeLanguages from '@theme-original/prism-include-languages';
+import type * as PrismNamespace from 'prismjs';
+
+// Prism has no grammar for `.env` files: `KEY=value` lines, with `#` comments, an optional `export` and quoted or
+// `${VAR}`-interpolating values.
+export default function prismIncludeLanguagesWrapper(PrismObject: typeof PrismNamespace): void {
+  prismIncludeLanguages(PrismObject);
+  PrismObject.languages.dotenv = {
+    comment: { pattern: /(^|\s)#.*/, lookbehind: true, greedy: true },
+    keyword: /^\s*export\b/m,
+    variable: { pattern: /^(\s*(?:export\s+)?)[A-Za-z_][\w.]*(?=\s*=)/m, lookbehind: true },
+    string: {
+      pattern: /(=\s*)(?:"(?:\\[\s\S]|[^\\"])*"|'[^']*')/,
+      lookbehind: true,
+      greedy: true,
+      inside: { interpolation: { pattern: /\$\{[^}]*\}/, alias: 'variable' } },
+    },
+    interpolation: { pattern: /\$\{[^}]*\}/, alias: 'variable' },
+    punctuation: /=/,
+  };
+  PrismObject.languages.env = PrismObject.languages.dotenv;
+}
@@ -0,0 +1,219 @@
+import { readZipEntries } from './zip';
+
+// Reads a directory or zip of call artifacts (`ArtifactConfig`) in the browser, for `src/components/ArtifactsInspector`.
+// Files are only ever read locally: nothing here sends them anywhere.
+
+/** A `.json` or `.jsonl` file of the artifacts, by its path inside the dropped directory or zip. */
+export type ArtifactFile = {
+  path: string;
+  lastModified: number;
+  content: string;
+};
+
+/** The files a call writes under `<artifact_root>/<prefix>/dai/`, one per stage (`ArtifactConfig.capture_*`). */
+export type ArtifactStage = 'dhenara_request' | 'provider_request' | 'provider_response' | 'dhenara_response';
+
+export const ARTIFACT_STAGES: ArtifactStage[] = [
+  'dhenara_request',
+  'provider_request',
+  'provider_response',
+  'dhenara_response',
+];
+
+export type ParsedJson = { path: string; value: unknown } | { path: string; error: string };
+
+export type LogRecord = {
+  time?: string;
+  level?: string;
+  logger?: string;
+  message: string;
+};
+
+export type ArtifactCall = {
+  /** `<artifact_root>/<prefix>`, relative to what was dropped. */
+  id: string;
+  /** Modification time of the call's earliest file, which orders the timeline. */
+  startedAt: number;
+  stages: Partial<Record<ArtifactStage, ParsedJson>>;
+  logs: LogRecord[];
+  /** Files of the call that match no stage, e.g. written by a newer dhenara-ai. */
+  otherFiles: ParsedJson[];
+};
+
+const ARTIFACT_FILE = /\.jsonl?$/;
+
+function isArtifactFile(path: string): boolean {
+  return ARTIFACT_FILE.test(path) && !path.split('/').some((segment) => segment.startsWith('.'));
+}
+
+async function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // `readEntries()` returns the entries in batches, then an empty one.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    // Dropped files have no `webkitRelativePath`; keep the entry's path instead (without its leading `/`).
+    return [new File([file], entry.fullPath.replace(/^\//, ''), { lastModified: file.lastModified })];
+  }
+  const entries = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+  return (await Promise.all(entries.map(readEntry))).flat();
+}
+
+/** The files of the directories and files dropped on the page; a `File`'s name holds its path. */
+export async function readDroppedItems(items: DataTransferItemList): Promise<File[]> {
+  // The entries must be taken synchronously, before the drop event's data is cleared.
+  const entries = Array.from(items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry) => entry !== null);
+  return (await Promise.all(entries.map(readEntry))).flat();
+}
+
+function filePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+/** Reads the artifact files of the chosen or dropped files, unpacking zip archives. */
+export async function readArtifactFiles(files: File[]): Promise<ArtifactFile[]> {
+  const read = await Promise.all(
+    files.map(async (file): Promise<ArtifactFile[]> => {
+      const path = filePath(file);
+      if (path.endsWith('.zip')) {
+        return readZipEntries(file, isArtifactFile);
+      }
+      return isArtifactFile(path) ? [{ path, lastModified: file.lastModified, content: await file.text() }] : [];
+    })
+  );
+  return read.flat();
+}
+
+function parseJson({ path, content }: ArtifactFile): ParsedJson {
+  try {
+    return { path, value: JSON.parse(content) };
+  } catch (error) {
+    return { path, error: (error as Error).message };
+  }
+}
+
+function stringField(record: Record<string, unknown>, ...names: string[]): string | undefined {
+  const name = names.find(
+    (candidate) => typeof record[candidate] === 'string' || typeof record[candidate] === 'number'
+  );
+  return name === undefined ? undefined : String(record[name]);
+}
+
+// One JSON object per line; the field names of Python's `logging` records and of common JSON formatters are accepted.
+function parseLogs({ content }: ArtifactFile): LogRecord[] {
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        const record = JSON.parse(line) as Record<string, unknown>;
+        return {
+          time: stringField(record, 'time', 'timestamp', 'asctime', 'created'),
+          level: stringField(record, 'level', 'levelname'),
+          logger: stringField(record, 'logger', 'name'),
+          message: stringField(record, 'message', 'msg') ?? line,
+        };
+      } catch {
+        return { message: line };
+      }
+    });
+}
+
+function stageOf(fileName: string): ArtifactStage | undefined {
+  return ARTIFACT_STAGES.find((stage) => fileName.includes(stage));
+}
+
+/**
+ * Groups the files into calls, oldest first. A call is a `dai/` directory; files outside one are grouped by their own
+ * directory, so a single call's `dai/` directory can be dropped on its own.
+ */
+export function groupArtifactCalls(files: ArtifactFile[]): ArtifactCall[] {
+  const calls = new Map<string, ArtifactCall>();
+  for (const file of files) {
+    const segments = file.path.split('/');
+    const fileName = segments.pop()!;
+    const daiIndex = segments.lastIndexOf('dai');
+    const id = (daiIndex >= 0 ? segments.slice(0, daiIndex) : segments).join('/') || '.';
+
+    const call = calls.get(id) ?? { id, startedAt: file.lastModified, stages: {}, logs: [], otherFiles: [] };
+    call.startedAt = Math.min(call.startedAt, file.lastModified);
+    const stage = stageOf(fileName);
+    if (fileName.endsWith('.jsonl')) {
+      call.logs.push(...parseLogs(file));
+    } else if (stage && !call.stages[stage]) {
+      call.stages[stage] = parseJson(file);
+    } else {
+      call.otherFiles.push(parseJson(file));
+    }
+    calls.set(id, call);
+  }
+  return [...calls.values()].sort((a, b) => a.startedAt - b.startedAt || a.id.localeCompare(b.id));
+}
+
+export type ChatResponseSummary = {
+  contents: { type: string; text: string }[];
+  usage?: Record<string, unknown>;
+  usageCharge?: Record<string, unknown>;
+};
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+// What a content item says, by its type (`ChatResponseContentItemType`).
+function contentText(item: Record<string, unknown>): string {
+  const toolCall = asRecord(item.tool_call);
+  if (toolCall) {
+    return `${toolCall.name}(${JSON.stringify(toolCall.arguments ?? {})})`;
+  }
+  if (item.structured_output !== undefined) {
+    return JSON.stringify(item.structured_output, null, 2);
+  }
+  return stringField(item, 'text', 'thinking_text', 'reasoning') ?? JSON.stringify(item, null, 2);
+}
+
+/**
+ * The contents, usage and charge of a `dhenara_response` artifact, which is an `AIModelCallResponse` (or its
+ * `chat_response`) dumped to JSON. Returns `undefined` for an image response or an unknown shape.
+ */
+export function summarizeChatResponse(value: unknown): ChatResponseSummary | undefined {
+  const response = asRecord(asRecord(value)?.chat_response) ?? asRecord(value);
+  const choices = response?.choices;
+  if (!response || !Array.isArray(choices)) {
+    return undefined;
+  }
+  const contents = choices.flatMap((choice) => {
+    const items = asRecord(choice)?.contents;
+    return Array.isArray(items) ? items.map(asRecord).filter((item) => item !== undefined) : [];
+  });
+  return {
+    contents: contents.map((item) => ({ type: String(item.type ?? 'unknown'), text: contentText(item) })),
+    usage: asRecord(response.usage),
+    usageCharge: asRecord(response.usage_charge),
+  };
+}
+
+/** The model of a call, as named in its provider request. */
+export function requestedModel(call: ArtifactCall): string | undefined {
+  const request = call.stages.provider_request;
+  const payload = request && 'value' in request ? asRecord(request.value) : undefined;
+  return payload && typeof payload.model === 'string' ? payload.model : undefined;
+}
@@ -0,0 +1,117 @@
+// Annotated code blocks. `plugins/remark-code-annotations` turns the annotations of a fence into Docusaurus magic
+// comments (`themeConfig.prism.magicComments`); the theme's `CodeBlock` renders the class names they put on the lines
+// as callout markers, diff lines and a folded import header.
+
+/** Fence meta naming a block, so that later blocks of the same page can be shown as a diff against it. */
+export const NAME_META_KEY = 'name';
+/** Fence meta showing a block as a diff against the earlier block of that name. */
+export const DIFF_META_KEY = 'diff';
+/** Fence meta added by the remark plugin: the id prefix of the block's callout explanations. */
+export const CALLOUTS_META_KEY = 'callouts';
+/** Fence meta flag folding the leading import lines of a block. */
+export const FOLD_IMPORTS_META_FLAG = 'fold-imports';
+
+/** One magic comment per callout number, so a block has at most this many callouts. */
+export const MAX_CALLOUTS = 9;
+
+export const DIFF_ADD_CLASS_NAME = 'code-block-diff-add';
+export const DIFF_REMOVE_CLASS_NAME = 'code-block-diff-remove';
+export const FOLDED_IMPORT_CLASS_NAME = 'code-block-folded-import';
+/** The first folded line, which carries the fold toggle. */
+export const FOLD_SUMMARY_CLASS_NAME = 'code-block-fold-summary';
+const CALLOUT_CLASS_NAME_PREFIX = 'code-block-callout-';
+/** The ordered list explaining the callouts of the block before it. */
+export const CALLOUTS_LIST_CLASS_NAME = 'code-block-callouts';
+
+export const DIRECTIVES = {
+  diffAdd: 'diff-add',
+  diffRemove: 'diff-remove',
+  foldSummary: 'fold-summary',
+  foldStart: 'fold-start',
+  foldEnd: 'fold-end',
+  callout: (number: number) => `callout-${number}`,
+};
+
+type MagicComment = {
+  className: string;
+  line?: string;
+  block?: { start: string; end: string };
+};
+
+export const MAGIC_COMMENTS: MagicComment[] = [
+  // Docusaurus' default, which `magicComments` replaces.
+  {
+    className: 'theme-code-block-highlighted-line',
+    line: 'highlight-next-line',
+    block: { start: 'highlight-start', end: 'highlight-end' },
+  },
+  { className: DIFF_ADD_CLASS_NAME, line: DIRECTIVES.diffAdd },
+  { className: DIFF_REMOVE_CLASS_NAME, line: DIRECTIVES.diffRemove },
+  { className: FOLD_SUMMARY_CLASS_NAME, line: DIRECTIVES.foldSummary },
+  { className: FOLDED_IMPORT_CLASS_NAME, block: { start: DIRECTIVES.foldStart, end: DIRECTIVES.foldEnd } },
+  ...Array.from({ length: MAX_CALLOUTS }, (_, index) => ({
+    className: `${CALLOUT_CLASS_NAME_PREFIX}${index + 1}`,
+    line: DIRECTIVES.callout(index + 1),
+  })),
+];
+
+// A line holding only one of the directives above, in the comment syntax of any language the plugin writes.
+const DIRECTIVE_LINE = /^\s*(?:#|\/\/)\s*(diff-add|diff-remove|fold-summary|fold-start|fold-end|callout-\d)\s*$/;
+
+/** The id of the explanation of a callout, below the block. */
+export function calloutId(callouts: string, number: number): string {
+  return `${callouts}-callout-${number}`;
+}
+
+/** The callout number of a line, from its magic comment class names. */
+export function calloutNumber(classNames: string[]): number | undefined {
+  const className = classNames.find((name) => name.startsWith(CALLOUT_CLASS_NAME_PREFIX));
+  return className ? Number(className.slice(CALLOUT_CLASS_NAME_PREFIX.length)) : undefined;
+}
+
+/** The value of a `key=value` item of a fence's meta. */
+export function metaValue(metastring: string | undefined, key: string): string | undefined {
+  return new RegExp(`(?:^|\\s)${key}=(\\S+)`).exec(metastring ?? '')?.[1];
+}
+
+export type CodeAnnotations = {
+  /** The code as it reads after the change: without removed lines and directives. It is what is copied and run. */
+  code: string;
+  /** Id prefix of the callout explanations, when the block has callouts. */
+  callouts?: string;
+  /** Number of lines of the folded import header; 0 without one. */
+  foldedLines: number;
+  /** Whether the folded import header has added or removed lines. */
+  foldChanged: boolean;
+};
+
+/** The annotations of a code block's source, or `undefined` when it has none. */
+export function parseCodeAnnotations(source: string, metastring: string | undefined): CodeAnnotations | undefined {
+  const code: string[] = [];
+  let annotated = false;
+  let removeNext = false;
+  let inFold = false;
+  let foldedLines = 0;
+  let foldChanged = false;
+  for (const line of source.replace(/\n$/, '').split('\n')) {
+    const directive = DIRECTIVE_LINE.exec(line)?.[1];
+    if (directive) {
+      annotated = true;
+      removeNext ||= directive === DIRECTIVES.diffRemove;
+      inFold = directive === DIRECTIVES.foldStart || (inFold && directive !== DIRECTIVES.foldEnd);
+      foldChanged ||= inFold && directive.startsWith('diff-');
+      continue;
+    }
+    if (inFold) {
+      foldedLines += 1;
+    }
+    if (!removeNext) {
+      code.push(line);
+    }
+    removeNext = false;
+  }
+  if (!annotated) {
+    return undefined;
+  }
+  return { code: code.join('\n'), callouts: metaValue(metastring, CALLOUTS_META_KEY), foldedLines, foldChanged };
+}
@@ -0,0 +1,30 @@
+import type { ImagePricing, TokenPricing } from '../data/foundationModels';
+
+// Rough heuristic for English text: about four characters per token. Good enough for budgeting, not for billing.
+const CHARACTERS_PER_TOKEN = 4;
+
+export const DAYS_PER_MONTH = 30;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.trim().length / CHARACTERS_PER_TOKEN);
+}
+
+/** Raw provider cost of one call, the same way `usage_charge.cost` is computed. */
+export function tokenCost(pricing: TokenPricing, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+export function imageCost(pricing: ImagePricing, option: string, images: number): number {
+  return (pricing.perImage[option] ?? 0) * images;
+}
+
+/** The amount reported as `usage_charge.charge`: the cost with `cost_multiplier_percentage` applied. */
+export function applyCostMultiplier(cost: number, multiplierPercentage: number): number {
+  return cost * (1 + multiplierPercentage / 100);
+}
+
+export function formatUsd(amount: number): string {
+  // Per-call costs are often fractions of a cent, so keep enough significant digits to be meaningful.
+  const maximumFractionDigits = amount !== 0 && Math.abs(amount) < 0.01 ? 6 : 2;
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits }).format(amount);
+}
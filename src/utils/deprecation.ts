@@ -0,0 +1,51 @@
+/**
+ * Deprecation metadata of a doc page, declared in its frontmatter:
+ *
+ * ```yaml
+ * deprecated: true # or a sentence explaining why
+ * deprecated_since: '1.0'
+ * replacement: features/multi-turn-conversations # doc id of the same version, or an absolute path / URL
+ * replacement_title: Multi-Turn Conversations # link text for a path / URL replacement
+ * noindex: true
+ * ```
+ *
+ * `noindex` is independent of `deprecated`: it adds a `robots` meta tag, which also keeps the page out of the sitemap.
+ */
+export type DeprecationFrontMatter = {
+  deprecated?: boolean | string;
+  deprecated_since?: string | number;
+  replacement?: string;
+  replacement_title?: string;
+  noindex?: boolean;
+};
+
+export type Deprecation = {
+  /** Why the page is deprecated, when the frontmatter gives a reason instead of `true`. */
+  reason?: string;
+  since?: string;
+  replacement?: string;
+  replacementTitle?: string;
+};
+
+/** Returns the deprecation of a page, or `null` when its frontmatter doesn't declare one. */
+export function getDeprecation(frontMatter: DeprecationFrontMatter): Deprecation | null {
+  const { deprecated, deprecated_since: since, replacement, replacement_title: replacementTitle } = frontMatter;
+  if (!deprecated) {
+    return null;
+  }
+  return {
+    reason: typeof deprecated === 'string' ? deprecated : undefined,
+    since: since === undefined ? undefined : String(since),
+    replacement,
+    replacementTitle,
+  };
+}
+
+export function isNoIndex(frontMatter: DeprecationFrontMatter): boolean {
+  return frontMatter.noindex === true;
+}
+
+/** Whether `replacement` is a route or URL rather than a doc id. */
+export function isReplacementPath(replacement: string): boolean {
+  return replacement.startsWith('/') || /^[a-z]+:\/\//i.test(replacement);
+}
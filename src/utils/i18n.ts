@@ -0,0 +1,9 @@
+// Docs translations: `i18n/<locale>/docusaurus-plugin-content-docs[-<plugin id>]/<version>/` mirrors the English docs
+// of each docs plugin instance and version. Docs missing there are served in English.
+
+export const TRANSLATION_STATUS_ROUTE = '/translation-status';
+
+/** Whether a doc was loaded from its translation rather than from the English docs, by its `@site/…` source. */
+export function isTranslatedSource(source: string, locale: string): boolean {
+  return source.startsWith(`@site/i18n/${locale}/`);
+}
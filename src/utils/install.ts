@@ -0,0 +1,57 @@
+import type { ModelProvider } from '../data/foundationModels';
+import { PROVIDER_APIS } from '../data/providers';
+
+export type Installer = 'pip' | 'uv' | 'poetry' | 'conda';
+
+export type InstallSpec = {
+  packageName: string;
+  providers: ModelProvider[];
+  /** Released docs version to stay on, e.g. `1.0`; the latest release when omitted. */
+  version?: string;
+};
+
+export const INSTALLERS: Record<Installer, string> = {
+  pip: 'pip',
+  uv: 'uv',
+  poetry: 'Poetry',
+  conda: 'conda',
+};
+
+// The Python version the package targets; see getting-started/installation.
+const PYTHON_VERSION = '3.13';
+
+/** PEP 508 requirement for the spec, quoted for the shell when it has extras or a version pin. */
+export function requirement({ packageName, providers, version }: InstallSpec): string {
+  const extras = [
+    ...new Set(providers.map((provider) => PROVIDER_APIS[provider].extra).filter((extra) => extra !== undefined)),
+  ];
+  const pinned = `${packageName}${extras.length > 0 ? `[${extras.join(',')}]` : ''}${version ? `~=${version}.0` : ''}`;
+  return pinned === packageName ? pinned : `"${pinned}"`;
+}
+
+export function installCommand(installer: Installer, spec: InstallSpec): string {
+  const target = requirement(spec);
+  switch (installer) {
+    case 'pip':
+      return `pip install ${target}`;
+    case 'uv':
+      return `uv add ${target}`;
+    case 'poetry':
+      return `poetry add ${target}`;
+    case 'conda':
+      // The package is published on PyPI only: create the environment with conda and install into it with pip.
+      return [
+        `conda create -n dhenara python=${PYTHON_VERSION} pip`,
+        'conda activate dhenara',
+        `pip install ${target}`,
+      ].join('\n');
+  }
+}
+
+/** `.env` template with the API-key variables of the given providers. */
+export function envTemplate(providers: ModelProvider[]): string {
+  return providers
+    .flatMap((provider) => PROVIDER_APIS[provider].envVars)
+    .map(({ name, description }) => `# ${description}\n${name}=`)
+    .join('\n\n');
+}
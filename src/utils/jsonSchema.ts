@@ -0,0 +1,525 @@
+import { translate } from '@docusaurus/Translate';
+
+// The subset of JSON Schema that Pydantic's `model_json_schema()` produces, for the structured output playground
+// (`src/components/SchemaPlayground`): validating a model output the way Pydantic does, and generating an example
+// instance. Keywords Pydantic never emits (`if`/`then`, `patternProperties`, ...) are ignored.
+
+export type JsonSchema = {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  examples?: unknown[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+};
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+/** One error of a Pydantic `ValidationError`, as in `exc.errors()`. */
+export type SchemaError = {
+  /** Path to the invalid value: field names and list indexes. Union members add their name, as Pydantic does. */
+  loc: (string | number)[];
+  msg: string;
+  /** Pydantic's error type, e.g. `missing` or `int_parsing`. */
+  type: string;
+  input: unknown;
+};
+
+/** Parses a JSON Schema pasted by the user; throws when it is not JSON or not an object. */
+export function parseSchema(source: string): JsonSchema {
+  const schema: unknown = JSON.parse(source);
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error(
+      translate({ id: 'schemaPlayground.schemaNotObject', message: 'The schema must be a JSON object.' })
+    );
+  }
+  return schema as JsonSchema;
+}
+
+/** Name of the model a schema describes, as in `N validation errors for <name>`. */
+export function schemaTitle(schema: JsonSchema): string {
+  return schema.title ?? 'Model';
+}
+
+/** The definition a local `$ref` (`#/$defs/Name`) points to, within the root schema. */
+export function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.match(/^#\/\$defs\/(.+)$/)?.[1];
+  const definition = name === undefined ? undefined : root.$defs?.[name];
+  if (!definition) {
+    throw new Error(
+      translate(
+        {
+          id: 'schemaPlayground.unresolvedRef',
+          message: 'Cannot resolve "{ref}": only references to "#/$defs/..." are supported.',
+        },
+        { ref }
+      )
+    );
+  }
+  return definition;
+}
+
+/** Name of a `$ref`'s definition, e.g. `ProductRatings`. */
+export function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+// Pydantic writes `Field(...)` constraints of a referenced model next to the `$ref` (older versions wrap it in a
+// one-item `allOf`); both are merged into the definition.
+function dereference(root: JsonSchema, schema: JsonSchema): JsonSchema {
+  if (schema.allOf?.length === 1 && !schema.type) {
+    const { allOf, ...rest } = schema;
+    return dereference(root, { ...allOf[0], ...rest });
+  }
+  if (schema.$ref) {
+    const { $ref, ...rest } = schema;
+    return { ...dereference(root, resolveRef(root, $ref)), ...rest };
+  }
+  return schema;
+}
+
+function isNullSchema(schema: JsonSchema): boolean {
+  return schema.type === 'null';
+}
+
+// Python's `repr()` of a JSON value, which Pydantic prints as `input_value`.
+export function pythonRepr(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(pythonRepr).join(', ')}]`;
+  }
+  return `{${Object.entries(value)
+    .map(([key, item]) => `${pythonRepr(key)}: ${pythonRepr(item)}`)
+    .join(', ')}}`;
+}
+
+/** Python type name of a JSON value, which Pydantic prints as `input_type`. */
+export function pythonTypeName(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NoneType';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'int' : 'float';
+  }
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  return { string: 'str', boolean: 'bool', object: 'dict' }[typeof value as 'string' | 'boolean' | 'object'];
+}
+
+// Pydantic's way of listing the expected values: `'a', 'b' or 'c'`.
+function expectedValues(values: unknown[]): string {
+  const reprs = values.map(pythonRepr);
+  return reprs.length > 1 ? `${reprs.slice(0, -1).join(', ')} or ${reprs[reprs.length - 1]}` : reprs[0];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Name of a union member in an error's location, e.g. `str` or `ProductRatings`.
+function memberName(member: JsonSchema): string {
+  if (member.$ref) {
+    return refName(member.$ref);
+  }
+  const type = Array.isArray(member.type) ? member.type[0] : member.type;
+  if (type === 'array') {
+    return member.items ? `list[${memberName(member.items)}]` : 'list[any]';
+  }
+  if (member.enum || member.const !== undefined) {
+    return `literal[${(member.enum ?? [member.const]).map(pythonRepr).join(',')}]`;
+  }
+  const names: Record<JsonSchemaType, string> = {
+    object: member.title ?? 'dict[str,any]',
+    array: 'list',
+    string: 'str',
+    integer: 'int',
+    number: 'float',
+    boolean: 'bool',
+    null: 'none',
+  };
+  return type ? names[type] : 'any';
+}
+
+type Validation = { root: JsonSchema; errors: SchemaError[] };
+
+function addError(validation: Validation, loc: (string | number)[], type: string, msg: string, input: unknown) {
+  validation.errors.push({ loc, type, msg, input });
+}
+
+// Lax mode, as for `model_validate()` of parsed JSON: numeric strings are accepted as numbers, whole floats as ints,
+// and `"true"`/`"false"` strings as booleans.
+function validateNumber(
+  validation: Validation,
+  schema: JsonSchema,
+  value: unknown,
+  loc: (string | number)[],
+  integer: boolean
+): boolean {
+  const [kind, noun] = integer ? ['int', 'integer'] : ['float', 'number'];
+  let number = value;
+  if (typeof value === 'string') {
+    number = value.trim() === '' ? NaN : Number(value);
+    if (Number.isNaN(number)) {
+      const msg = `Input should be a valid ${noun}, unable to parse string as ${integer ? 'an' : 'a'} ${noun}`;
+      addError(validation, loc, `${kind}_parsing`, msg, value);
+      return false;
+    }
+  } else if (typeof value !== 'number') {
+    addError(validation, loc, `${kind}_type`, `Input should be a valid ${noun}`, value);
+    return false;
+  }
+  const checked = number as number;
+  if (integer && !Number.isInteger(checked)) {
+    const msg = 'Input should be a valid integer, got a number with a fractional part';
+    addError(validation, loc, 'int_from_float', msg, value);
+    return false;
+  }
+  const bounds: [number | undefined, (limit: number) => boolean, string, string][] = [
+    [schema.exclusiveMinimum, (limit) => checked > limit, 'greater_than', 'greater than'],
+    [schema.minimum, (limit) => checked >= limit, 'greater_than_equal', 'greater than or equal to'],
+    [schema.exclusiveMaximum, (limit) => checked < limit, 'less_than', 'less than'],
+    [schema.maximum, (limit) => checked <= limit, 'less_than_equal', 'less than or equal to'],
+    [schema.multipleOf, (limit) => Number.isInteger(checked / limit), 'multiple_of', 'a multiple of'],
+  ];
+  for (const [limit, satisfies, type, words] of bounds) {
+    if (limit !== undefined && !satisfies(limit)) {
+      addError(validation, loc, type, `Input should be ${words} ${limit}`, value);
+      return false;
+    }
+  }
+  return true;
+}
+
+function validateString(validation: Validation, schema: JsonSchema, value: unknown, loc: (string | number)[]): boolean {
+  if (typeof value !== 'string') {
+    addError(validation, loc, 'string_type', 'Input should be a valid string', value);
+    return false;
+  }
+  // Pydantic counts characters (code points), not UTF-16 units.
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    addError(
+      validation,
+      loc,
+      'string_too_short',
+      `String should have at least ${plural(schema.minLength, 'character')}`,
+      value
+    );
+    return false;
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    addError(
+      validation,
+      loc,
+      'string_too_long',
+      `String should have at most ${plural(schema.maxLength, 'character')}`,
+      value
+    );
+    return false;
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    addError(validation, loc, 'string_pattern_mismatch', `String should match pattern '${schema.pattern}'`, value);
+    return false;
+  }
+  return true;
+}
+
+function validateArray(validation: Validation, schema: JsonSchema, value: unknown, loc: (string | number)[]): boolean {
+  if (!Array.isArray(value)) {
+    addError(validation, loc, 'list_type', 'Input should be a valid list', value);
+    return false;
+  }
+  const errorCount = validation.errors.length;
+  value.forEach((item, index) => {
+    const itemSchema = schema.prefixItems?.[index] ?? schema.items;
+    if (itemSchema) {
+      validateValue(validation, itemSchema, item, [...loc, index]);
+    }
+  });
+  if (validation.errors.length > errorCount) {
+    return false;
+  }
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    addError(
+      validation,
+      loc,
+      'too_short',
+      `List should have at least ${plural(schema.minItems, 'item')} after validation, not ${value.length}`,
+      value
+    );
+    return false;
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    addError(
+      validation,
+      loc,
+      'too_long',
+      `List should have at most ${plural(schema.maxItems, 'item')} after validation, not ${value.length}`,
+      value
+    );
+    return false;
+  }
+  return true;
+}
+
+function validateObject(validation: Validation, schema: JsonSchema, value: unknown, loc: (string | number)[]): boolean {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    // A nested model says which class it wanted; a plain `dict` field does not.
+    schema.properties
+      ? addError(
+          validation,
+          loc,
+          'model_type',
+          `Input should be a valid dictionary or instance of ${schemaTitle(schema)}`,
+          value
+        )
+      : addError(validation, loc, 'dict_type', 'Input should be a valid dictionary', value);
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  const errorCount = validation.errors.length;
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    if (name in record) {
+      validateValue(validation, property, record[name], [...loc, name]);
+    } else if (schema.required?.includes(name)) {
+      addError(validation, [...loc, name], 'missing', 'Field required', value);
+    }
+  }
+  for (const [name, item] of Object.entries(record)) {
+    if (schema.properties && name in schema.properties) {
+      continue;
+    }
+    if (schema.additionalProperties === false) {
+      addError(validation, [...loc, name], 'extra_forbidden', 'Extra inputs are not permitted', item);
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateValue(validation, schema.additionalProperties, item, [...loc, name]);
+    }
+  }
+  return validation.errors.length === errorCount;
+}
+
+function validateUnion(
+  validation: Validation,
+  members: JsonSchema[],
+  value: unknown,
+  loc: (string | number)[]
+): boolean {
+  // `X | None` is a nullable `X` for Pydantic, not a union: its errors carry no member name.
+  const others = members.filter((member) => !isNullSchema(member));
+  if (value === null && others.length < members.length) {
+    return true;
+  }
+  if (others.length === 1) {
+    return validateValue(validation, others[0], value, loc);
+  }
+  const memberErrors: SchemaError[] = [];
+  for (const member of others) {
+    const attempt: Validation = { root: validation.root, errors: [] };
+    if (validateValue(attempt, member, value, [])) {
+      return true;
+    }
+    const name = memberName(member);
+    memberErrors.push(...attempt.errors.map((error) => ({ ...error, loc: [...loc, name, ...error.loc] })));
+  }
+  validation.errors.push(...memberErrors);
+  return false;
+}
+
+function validateValue(validation: Validation, schema: JsonSchema, value: unknown, loc: (string | number)[]): boolean {
+  const resolved = dereference(validation.root, schema);
+  const members = resolved.anyOf ?? resolved.oneOf;
+  if (members) {
+    return validateUnion(validation, members, value, loc);
+  }
+  if (resolved.const !== undefined || resolved.enum) {
+    const allowed = resolved.enum ?? [resolved.const];
+    if (allowed.some((candidate) => JSON.stringify(candidate) === JSON.stringify(value))) {
+      return true;
+    }
+    // Referenced enums are `Enum` classes; inline ones are `Literal[...]`.
+    addError(
+      validation,
+      loc,
+      schema.$ref ? 'enum' : 'literal_error',
+      `Input should be ${expectedValues(allowed)}`,
+      value
+    );
+    return false;
+  }
+
+  const types = Array.isArray(resolved.type) ? resolved.type : resolved.type ? [resolved.type] : [];
+  if (types.length > 1) {
+    return validateUnion(
+      validation,
+      types.map((type) => ({ ...resolved, type })),
+      value,
+      loc
+    );
+  }
+  switch (types[0]) {
+    case 'object':
+      return validateObject(validation, resolved, value, loc);
+    case 'array':
+      return validateArray(validation, resolved, value, loc);
+    case 'string':
+      return validateString(validation, resolved, value, loc);
+    case 'integer':
+      return validateNumber(validation, resolved, value, loc, true);
+    case 'number':
+      return validateNumber(validation, resolved, value, loc, false);
+    case 'boolean':
+      if (typeof value === 'boolean' || value === 'true' || value === 'false') {
+        return true;
+      }
+      addError(validation, loc, 'bool_type', 'Input should be a valid boolean', value);
+      return false;
+    case 'null':
+      if (value === null) {
+        return true;
+      }
+      addError(validation, loc, 'none_required', 'Input should be None', value);
+      return false;
+    default:
+      // `Any`, or a schema that only documents the value.
+      return true;
+  }
+}
+
+/**
+ * Validates a model output against a schema, returning the errors Pydantic's `model_validate()` would report, in the
+ * same order. An empty list means the output is valid.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown): SchemaError[] {
+  const validation: Validation = { root: schema, errors: [] };
+  validateValue(validation, schema, value, []);
+  return validation.errors;
+}
+
+/** The error of an output that is not JSON at all, as `model_validate_json()` reports it. */
+export function invalidJsonError(source: string, error: Error): SchemaError {
+  return { loc: [], type: 'json_invalid', msg: `Invalid JSON: ${error.message}`, input: source };
+}
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '2025-01-01T12:00:00Z',
+  date: '2025-01-01',
+  time: '12:00:00',
+  duration: 'PT1H',
+  email: 'user@example.com',
+  uri: 'https://example.com/',
+  uuid: '123e4567-e89b-12d3-a456-426614174000',
+};
+
+// References followed this deep are cut short, so self-referencing models (trees, threads) terminate.
+const MAX_EXAMPLE_DEPTH = 6;
+
+function exampleValue(root: JsonSchema, schema: JsonSchema, name: string, depth: number): unknown {
+  const resolved = dereference(root, schema);
+  if (resolved.examples?.length) {
+    return resolved.examples[0];
+  }
+  // `X | None = None` fields read better with an `X`.
+  if (resolved.default !== undefined && resolved.default !== null) {
+    return resolved.default;
+  }
+  if (resolved.const !== undefined) {
+    return resolved.const;
+  }
+  if (resolved.enum?.length) {
+    return resolved.enum[0];
+  }
+  const members = resolved.anyOf ?? resolved.oneOf;
+  if (members) {
+    // Patterns aren't followed, so a member without one (or `None`) gives a valid example.
+    const others = members.filter((candidate) => !isNullSchema(candidate));
+    const member =
+      others.find((candidate) => !dereference(root, candidate).pattern) ??
+      (others.length < members.length ? undefined : others[0]);
+    return member ? exampleValue(root, member, name, depth) : null;
+  }
+  const type = Array.isArray(resolved.type) ? resolved.type.find((candidate) => candidate !== 'null') : resolved.type;
+  switch (type) {
+    case 'object': {
+      if (depth >= MAX_EXAMPLE_DEPTH) {
+        return {};
+      }
+      return Object.fromEntries(
+        Object.entries(resolved.properties ?? {}).map(([property, propertySchema]) => [
+          property,
+          exampleValue(root, propertySchema, property, depth + 1),
+        ])
+      );
+    }
+    case 'array': {
+      if (depth >= MAX_EXAMPLE_DEPTH || !resolved.items) {
+        return [];
+      }
+      const item = exampleValue(root, resolved.items, name, depth + 1);
+      const count = Math.max(resolved.minItems ?? 1, 1);
+      return Array.from({ length: Math.min(count, resolved.maxItems ?? count) }, () => item);
+    }
+    case 'string': {
+      if (resolved.format && FORMAT_EXAMPLES[resolved.format]) {
+        return FORMAT_EXAMPLES[resolved.format];
+      }
+      // The field name reads better than "string", padded or cut to the length constraints.
+      const text = name || 'string';
+      const minLength = resolved.minLength ?? 0;
+      return text.padEnd(minLength, '_').slice(0, resolved.maxLength ?? Infinity);
+    }
+    case 'integer':
+    case 'number': {
+      const lower = resolved.minimum ?? (resolved.exclusiveMinimum !== undefined ? resolved.exclusiveMinimum + 1 : 0);
+      const upper =
+        resolved.maximum ?? (resolved.exclusiveMaximum !== undefined ? resolved.exclusiveMaximum - 1 : Infinity);
+      return Math.min(Math.max(lower, 0), upper);
+    }
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+/**
+ * An instance of the schema: every property filled in with its example, default, first allowed value, or a
+ * placeholder satisfying its constraints. Patterns are not taken into account.
+ */
+export function exampleInstance(schema: JsonSchema): unknown {
+  return exampleValue(schema, schema, '', 0);
+}
@@ -0,0 +1,12 @@
+// Markdown export of the doc pages, written by `plugins/llms-txt` and copied by `src/components/CopyPageMarkdown`.
+
+/** Extension of the Markdown export of each page, served next to its HTML at `<permalink>.md`. */
+export const MARKDOWN_EXPORT_EXTENSION = '.md';
+
+/**
+ * Site path of the Markdown export of a page. Folder index docs have a trailing-slash permalink, but are served without
+ * it (`trailingSlash: false`).
+ */
+export function markdownExportPath(permalink: string): string {
+  return `${permalink.replace(/\/$/, '')}${MARKDOWN_EXPORT_EXTENSION}`;
+}
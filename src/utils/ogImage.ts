@@ -0,0 +1,15 @@
+// Open Graph images of the doc pages, rendered at build time by `plugins/og-images`.
+
+export const OG_IMAGE_DIR = 'img/og';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/**
+ * Site path of the Open Graph image of a doc page: `/dhenara-ai/guides/structured-output` has
+ * `/img/og/dhenara-ai/guides/structured-output.png`.
+ */
+export function ogImagePath(permalink: string, baseUrl: string): string {
+  const route = permalink.slice(baseUrl.length).replace(/\/$/, '');
+  return `${baseUrl}${OG_IMAGE_DIR}/${route}.png`;
+}
@@ -0,0 +1,271 @@
+import {
+  pythonRepr,
+  pythonTypeName,
+  refName,
+  resolveRef,
+  schemaTitle,
+  type JsonSchema,
+  type SchemaError,
+} from './jsonSchema';
+
+// Python side of the structured output playground (`src/components/SchemaPlayground`): the text of a Pydantic
+// `ValidationError`, and the Pydantic classes a JSON Schema was generated from.
+
+// pydantic-core shortens long `input_value`s to their first 25 and last 24 characters.
+const MAX_INPUT_VALUE_LENGTH = 50;
+
+function inputValue(input: unknown): string {
+  const repr = pythonRepr(input);
+  return repr.length > MAX_INPUT_VALUE_LENGTH ? `${repr.slice(0, 25)}...${repr.slice(-24)}` : repr;
+}
+
+/** Location of an error the way Pydantic prints it, e.g. `rating.rating` or `pros.0`. */
+export function formatLoc(loc: SchemaError['loc']): string {
+  return loc.join('.');
+}
+
+/** `str(exc)` of the `ValidationError` Pydantic raises for these errors. */
+export function formatValidationError(title: string, errors: SchemaError[]): string {
+  const lines = [`${errors.length} validation error${errors.length === 1 ? '' : 's'} for ${title}`];
+  for (const error of errors) {
+    const context = `type=${error.type}, input_value=${inputValue(error.input)}, input_type=${pythonTypeName(error.input)}`;
+    lines.push(formatLoc(error.loc), `  ${error.msg} [${context}]`);
+  }
+  return lines.join('\n');
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Python's keywords can't be field names either.
+const PYTHON_KEYWORDS = new Set(
+  (
+    'False None True and as assert async await break class continue def del elif else except finally for from global ' +
+    'if import in is lambda nonlocal not or pass raise return try while with yield'
+  ).split(' ')
+);
+
+/** A field name for a property: the name itself when it is a valid identifier, else an alias of a sanitized name. */
+function fieldName(property: string): { name: string; alias?: string } {
+  if (IDENTIFIER.test(property) && !PYTHON_KEYWORDS.has(property)) {
+    return { name: property };
+  }
+  const name = property.replace(/\W+/g, '_').replace(/^(?=\d)/, '_');
+  return { name: PYTHON_KEYWORDS.has(name) ? `${name}_` : name, alias: property };
+}
+
+type Generation = {
+  /** Names imported from each module. */
+  imports: Map<string, Set<string>>;
+};
+
+function addImport(generation: Generation, module: string, name: string) {
+  const names = generation.imports.get(module) ?? new Set();
+  names.add(name);
+  generation.imports.set(module, names);
+}
+
+const FORMAT_TYPES: Record<string, [module: string, name: string]> = {
+  'date-time': ['datetime', 'datetime'],
+  date: ['datetime', 'date'],
+  time: ['datetime', 'time'],
+  duration: ['datetime', 'timedelta'],
+  email: ['pydantic', 'EmailStr'],
+  uri: ['pydantic', 'AnyUrl'],
+  uuid: ['uuid', 'UUID'],
+};
+
+/** The Python annotation of a schema, e.g. `list[str]` or `ProductRatings | None`. */
+function annotation(generation: Generation, schema: JsonSchema): string {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.allOf?.length === 1) {
+    return annotation(generation, schema.allOf[0]);
+  }
+  const members = schema.anyOf ?? schema.oneOf;
+  if (members) {
+    return members.map((member) => annotation(generation, member)).join(' | ');
+  }
+  if (schema.const !== undefined || schema.enum) {
+    addImport(generation, 'typing', 'Literal');
+    return `Literal[${(schema.enum ?? [schema.const]).map(pythonRepr).join(', ')}]`;
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => annotation(generation, { ...schema, type })).join(' | ');
+  }
+  switch (schema.type) {
+    case 'string': {
+      const formatType = schema.format ? FORMAT_TYPES[schema.format] : undefined;
+      if (formatType) {
+        addImport(generation, ...formatType);
+        return formatType[1];
+      }
+      return 'str';
+    }
+    case 'integer':
+      return 'int';
+    case 'number':
+      return 'float';
+    case 'boolean':
+      return 'bool';
+    case 'null':
+      return 'None';
+    case 'array': {
+      if (schema.prefixItems) {
+        return `tuple[${schema.prefixItems.map((item) => annotation(generation, item)).join(', ')}]`;
+      }
+      const container = schema.uniqueItems ? 'set' : 'list';
+      return `${container}[${schema.items ? annotation(generation, schema.items) : anyType(generation)}]`;
+    }
+    case 'object':
+      if (typeof schema.additionalProperties === 'object') {
+        return `dict[str, ${annotation(generation, schema.additionalProperties)}]`;
+      }
+      return `dict[str, ${anyType(generation)}]`;
+    default:
+      return anyType(generation);
+  }
+}
+
+function anyType(generation: Generation): string {
+  addImport(generation, 'typing', 'Any');
+  return 'Any';
+}
+
+// `Field(...)` arguments for a property's constraints, in the order they are usually written.
+function fieldArguments(schema: JsonSchema, alias: string | undefined): string[] {
+  const constraints: [keyof JsonSchema, string][] = [
+    ['exclusiveMinimum', 'gt'],
+    ['minimum', 'ge'],
+    ['exclusiveMaximum', 'lt'],
+    ['maximum', 'le'],
+    ['multipleOf', 'multiple_of'],
+    ['minLength', 'min_length'],
+    ['maxLength', 'max_length'],
+    ['minItems', 'min_length'],
+    ['maxItems', 'max_length'],
+    ['pattern', 'pattern'],
+  ];
+  const args = constraints
+    .filter(([keyword]) => schema[keyword] !== undefined)
+    .map(([keyword, argument]) => `${argument}=${pythonRepr(schema[keyword])}`);
+  if (alias) {
+    args.unshift(`alias=${pythonRepr(alias)}`);
+  }
+  if (schema.description) {
+    args.push(`description=${pythonRepr(schema.description)}`);
+  }
+  return args;
+}
+
+// Pydantic writes the constraints of an `X | None` field on its `X` member.
+function nullableMember(schema: JsonSchema): JsonSchema | undefined {
+  const members = schema.anyOf ?? schema.oneOf;
+  const others = members?.filter((member) => member.type !== 'null');
+  return others?.length === 1 && others.length < members!.length && !others[0].$ref ? others[0] : undefined;
+}
+
+function fieldLine(generation: Generation, property: string, schema: JsonSchema, required: boolean): string {
+  const { name, alias } = fieldName(property);
+  let type = annotation(generation, schema);
+  const args = fieldArguments({ ...nullableMember(schema), ...schema }, alias);
+  // An optional field without a default defaults to `None`, as `datamodel-code-generator` does.
+  if (!required && schema.default === undefined && !type.split(' | ').includes('None')) {
+    type = `${type} | None`;
+  }
+  const defaultValue = required ? undefined : pythonRepr(schema.default ?? null);
+  if (args.length === 0) {
+    return `    ${name}: ${type}${defaultValue === undefined ? '' : ` = ${defaultValue}`}`;
+  }
+  addImport(generation, 'pydantic', 'Field');
+  return `    ${name}: ${type} = Field(${[defaultValue ?? '...', ...args].join(', ')})`;
+}
+
+function docstring(description: string | undefined): string[] {
+  return description ? [`    """${description.replace(/"""/g, '\\"\\"\\"')}"""`, ''] : [];
+}
+
+function enumClass(generation: Generation, name: string, schema: JsonSchema): string {
+  addImport(generation, 'enum', 'Enum');
+  const values = schema.enum ?? [];
+  const base = values.every((value) => typeof value === 'string')
+    ? 'str, Enum'
+    : values.every((value) => typeof value === 'number')
+      ? 'int, Enum'
+      : 'Enum';
+  const members = values.map((value) => {
+    const member = String(value)
+      .toUpperCase()
+      .replace(/\W+/g, '_')
+      .replace(/^(?=\d)/, '_');
+    return `    ${member} = ${pythonRepr(value)}`;
+  });
+  return [`class ${name}(${base}):`, ...docstring(schema.description), ...members].join('\n');
+}
+
+function modelClass(generation: Generation, name: string, schema: JsonSchema): string {
+  addImport(generation, 'pydantic', 'BaseModel');
+  const fields = Object.entries(schema.properties ?? {}).map(([property, propertySchema]) =>
+    fieldLine(generation, property, propertySchema, schema.required?.includes(property) ?? false)
+  );
+  const config: string[] = [];
+  if (schema.additionalProperties === false) {
+    addImport(generation, 'pydantic', 'ConfigDict');
+    config.push(`    model_config = ConfigDict(extra='forbid')`, '');
+  }
+  const body = [...docstring(schema.description), ...config, ...fields];
+  return [`class ${name}(BaseModel):`, ...(body.length > 0 ? body : ['    pass'])].join('\n');
+}
+
+// Names of the definitions a schema refers to, directly or through nested schemas.
+function referencedNames(schema: unknown): string[] {
+  if (typeof schema !== 'object' || schema === null) {
+    return [];
+  }
+  return Object.entries(schema).flatMap(([key, value]) =>
+    key === '$ref' && typeof value === 'string' ? [refName(value)] : key === '$defs' ? [] : referencedNames(value)
+  );
+}
+
+/**
+ * Source of the Pydantic classes a `model_json_schema()` output describes: one class per `$defs` entry (an `Enum` for
+ * enum definitions) and the root model last, with their imports. Titles are dropped, since Pydantic derives them from
+ * the names; validators and other Python-only behaviour can't be recovered from a schema.
+ */
+export function pydanticModelSource(schema: JsonSchema): string {
+  const generation: Generation = { imports: new Map() };
+  const definitions = Object.entries(schema.$defs ?? {});
+  for (const name of referencedNames(schema)) {
+    // Fails on a reference to a missing definition.
+    resolveRef(schema, `#/$defs/${name}`);
+  }
+
+  const classes = [
+    ...definitions.map(([name, definition]) =>
+      definition.enum ? enumClass(generation, name, definition) : modelClass(generation, name, definition)
+    ),
+    modelClass(generation, schemaTitle(schema).replace(/\W+/g, ''), schema),
+  ];
+
+  // A class used before it is defined (or by itself) needs postponed annotations.
+  const defined = new Set<string>();
+  const forwardReference = [...definitions, [schemaTitle(schema), schema] as const].some(([name, definition]) => {
+    defined.add(name);
+    return referencedNames(definition).some((referenced) => referenced === name || !defined.has(referenced));
+  });
+
+  // isort's layout: the standard library, then Pydantic.
+  const importLine = ([module, names]: [string, Set<string>]) =>
+    `from ${module} import ${[...names].sort().join(', ')}`;
+  const modules = [...generation.imports.entries()].sort(([a], [b]) => a.localeCompare(b));
+  const imports = [
+    modules.filter(([module]) => module !== 'pydantic').map(importLine),
+    modules.filter(([module]) => module === 'pydantic').map(importLine),
+  ]
+    .filter((group) => group.length > 0)
+    .map((group) => group.join('\n'));
+  if (forwardReference) {
+    imports.unshift('from __future__ import annotations');
+  }
+  return `${imports.join('\n\n')}\n\n\n${classes.join('\n\n\n')}\n`;
+}
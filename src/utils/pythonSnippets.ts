@@ -0,0 +1,8 @@
+// Fence meta of Python snippets, shared by `plugins/remark-python-snippets`, which checks them at build time, and the
+// theme's `CodeBlock`.
+
+/**
+ * Fence meta flag for snippets that are deliberately incomplete, such as the generated API signatures: they skip the
+ * syntax check, but their imports are still verified, and they are not published as samples.
+ */
+export const PARTIAL_META_FLAG = 'partial';
@@ -0,0 +1,122 @@
+import type { SearchDocument, SearchIndex, SearchProduct, SearchSection } from '../../plugins/search-index/types';
+
+import { PRODUCTS } from '../data/products';
+import { translatedProductLabel } from './translateProduct';
+
+export type { SearchProduct } from '../../plugins/search-index/types';
+
+export type SearchHit = {
+  document: SearchDocument;
+  section: SearchSection;
+  url: string;
+  score: number;
+  snippet: string;
+};
+
+export type SearchOptions = {
+  includeDeprecated: boolean;
+  limit?: number;
+};
+
+export const SEARCH_PRODUCT_LABELS = Object.fromEntries(
+  PRODUCTS.map((product) => [product.id, translatedProductLabel(product)])
+) as Record<SearchProduct, string>;
+
+// Local-storage key for the "include deprecated docs" opt-in.
+export const INCLUDE_DEPRECATED_STORAGE_KEY = 'dhenara.search.includeDeprecated';
+
+const SNIPPET_RADIUS = 80;
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+/** Lazily loads the build-time search index; the chunk is only fetched on first use. */
+export function loadSearchIndex(): Promise<SearchIndex> {
+  if (!indexPromise) {
+    indexPromise = import('@generated/dhenara-search-index/default/search-index.json').then(
+      (module) => module.default as SearchIndex
+    );
+  }
+  return indexPromise;
+}
+
+function tokenize(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_.]+/u)
+    .filter(Boolean);
+}
+
+function countOccurrences(haystack: string, term: string): number {
+  let count = 0;
+  for (let i = haystack.indexOf(term); i !== -1; i = haystack.indexOf(term, i + term.length)) {
+    count += 1;
+  }
+  return count;
+}
+
+function buildSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((i) => i !== -1));
+  if (!Number.isFinite(first)) {
+    return text.slice(0, SNIPPET_RADIUS * 2);
+  }
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Ranks every section of every document against the query. All terms must match somewhere in the section (its
+ * text, its heading or the page title); matches in titles and headings weigh more than body text.
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions): SearchHit[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const hits: SearchHit[] = [];
+  for (const document of index.documents) {
+    if (document.deprecated && !options.includeDeprecated) {
+      continue;
+    }
+    const title = document.title.toLowerCase();
+    for (const section of document.sections) {
+      const heading = section.heading.toLowerCase();
+      const text = section.text.toLowerCase();
+      let score = 0;
+      for (const term of terms) {
+        const termScore =
+          (title.includes(term) ? 10 : 0) +
+          (heading.includes(term) ? 5 : 0) +
+          Math.min(countOccurrences(text, term), 5);
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+      }
+      if (score > 0) {
+        hits.push({
+          document,
+          section,
+          url: section.anchor ? `${document.permalink}#${section.anchor}` : document.permalink,
+          score,
+          snippet: buildSnippet(section.text, terms),
+        });
+      }
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
+
+/** Counts hits per product, for the facet filters. */
+export function countByProduct(hits: SearchHit[]): Partial<Record<SearchProduct, number>> {
+  const counts: Partial<Record<SearchProduct, number>> = {};
+  for (const { document } of hits) {
+    counts[document.product] = (counts[document.product] ?? 0) + 1;
+  }
+  return counts;
+}
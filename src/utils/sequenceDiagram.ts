@@ -0,0 +1,206 @@
+import type { SequenceDiagram, SequenceStep } from '../data/sequenceDiagrams';
+
+// Layout of `src/data/sequenceDiagrams.ts` diagrams for `src/components/SequenceDiagram`, in SVG user units, and their
+// text version. Both number the messages the same way, so the text can be read along the diagram.
+
+export const PARTICIPANT_HEIGHT = 36;
+const PARTICIPANT_PADDING = 16;
+const MIN_COLUMN_GAP = 150;
+const MESSAGE_HEIGHT = 44;
+const SELF_MESSAGE_HEIGHT = 60;
+const SELF_MESSAGE_WIDTH = 28;
+const NOTE_HEIGHT = 32;
+const LOOP_HEADER_HEIGHT = 30;
+const LOOP_FOOTER_HEIGHT = 14;
+const LOOP_PADDING = 12;
+/** Width of the `loop` tab in a loop's top left corner. */
+export const LOOP_TAB_WIDTH = 44;
+const MARGIN = 16;
+
+/** Average width of a label character, enough to keep labels from overlapping without measuring text. */
+export const CHARACTER_WIDTH = 7;
+
+export type ParticipantLayout = { id: string; label: string; x: number; width: number };
+
+export type MessageLayout = {
+  number: number;
+  label: string;
+  reply: boolean;
+  /** A message a participant sends to itself, drawn as a loop to the right of its lifeline. */
+  self: boolean;
+  x1: number;
+  x2: number;
+  y: number;
+};
+
+export type NoteLayout = { text: string; x: number; y: number; width: number; height: number };
+
+export type LoopLayout = { label: string; x: number; y: number; width: number; height: number };
+
+export type DiagramLayout = {
+  width: number;
+  height: number;
+  participants: ParticipantLayout[];
+  /** Vertical extent of the lifelines. */
+  lifelines: { top: number; bottom: number };
+  messages: MessageLayout[];
+  notes: NoteLayout[];
+  loops: LoopLayout[];
+};
+
+/** A label without its Markdown backticks. */
+export function plainLabel(label: string): string {
+  return label.replace(/`/g, '');
+}
+
+function labelWidth(label: string): number {
+  return plainLabel(label).length * CHARACTER_WIDTH;
+}
+
+function flattenSteps(steps: SequenceStep[]): SequenceStep[] {
+  return steps.flatMap((step) => (step.kind === 'loop' ? flattenSteps(step.steps) : [step]));
+}
+
+// Each gap between neighbouring lifelines is wide enough for the labels of the messages crossing only that gap, and
+// of self messages and notes on its left lifeline.
+function columnGaps(diagram: SequenceDiagram): number[] {
+  const index = new Map(diagram.participants.map(({ id }, position) => [id, position]));
+  const gaps = diagram.participants.slice(1).map(() => MIN_COLUMN_GAP);
+  for (const step of flattenSteps(diagram.steps)) {
+    if (step.kind === 'message') {
+      const [from, to] = [index.get(step.from)!, index.get(step.to)!];
+      const left = Math.min(from, to);
+      const span = Math.abs(to - from);
+      const needed = labelWidth(step.label) + (span === 0 ? SELF_MESSAGE_WIDTH + 2 * MARGIN : 2 * MARGIN);
+      if (left < gaps.length && span <= 1) {
+        gaps[left] = Math.max(gaps[left], needed);
+      }
+    } else if (step.kind === 'note' && step.over.length === 1) {
+      const position = index.get(step.over[0])!;
+      if (position < gaps.length) {
+        gaps[position] = Math.max(gaps[position], labelWidth(step.text) / 2 + 3 * MARGIN);
+      }
+    }
+  }
+  return gaps;
+}
+
+/** Positions the participants, messages, notes and loops of a diagram, top to bottom. */
+export function layoutSequenceDiagram(diagram: SequenceDiagram): DiagramLayout {
+  const gaps = columnGaps(diagram);
+  // Loops reach left of the first lifeline, and the first participant's box further still.
+  let x = Math.max(labelWidth(diagram.participants[0].label) / 2 + PARTICIPANT_PADDING, 2 * LOOP_PADDING) + MARGIN;
+  const participants = diagram.participants.map(({ id, label }, position) => {
+    if (position > 0) {
+      x += gaps[position - 1];
+    }
+    return { id, label, x, width: labelWidth(label) + 2 * PARTICIPANT_PADDING };
+  });
+  const xOf = new Map(participants.map((participant) => [participant.id, participant.x]));
+
+  const layout: DiagramLayout = {
+    width: 0,
+    height: 0,
+    participants,
+    lifelines: { top: MARGIN + PARTICIPANT_HEIGHT, bottom: 0 },
+    messages: [],
+    notes: [],
+    loops: [],
+  };
+  let y = layout.lifelines.top + MARGIN;
+  let right = 0;
+
+  // Lays the steps out from `y`, returning the horizontal extent they cover.
+  const place = (steps: SequenceStep[]): [number, number] => {
+    let extent: [number, number] = [Infinity, -Infinity];
+    const cover = (from: number, to: number) => {
+      extent = [Math.min(extent[0], from), Math.max(extent[1], to)];
+      right = Math.max(right, to);
+    };
+    for (const step of steps) {
+      if (step.kind === 'message') {
+        const [x1, x2] = [xOf.get(step.from)!, xOf.get(step.to)!];
+        const self = step.from === step.to;
+        y += self ? SELF_MESSAGE_HEIGHT : MESSAGE_HEIGHT;
+        layout.messages.push({
+          number: layout.messages.length + 1,
+          label: step.label,
+          reply: step.reply ?? false,
+          self,
+          x1,
+          x2,
+          y: self ? y - SELF_MESSAGE_HEIGHT / 2 : y,
+        });
+        cover(Math.min(x1, x2), self ? x1 + SELF_MESSAGE_WIDTH + labelWidth(step.label) + MARGIN : Math.max(x1, x2));
+      } else if (step.kind === 'note') {
+        const xs = step.over.map((id) => xOf.get(id)!);
+        const width = Math.max(labelWidth(step.text) + 2 * PARTICIPANT_PADDING, Math.max(...xs) - Math.min(...xs));
+        const center = (Math.min(...xs) + Math.max(...xs)) / 2;
+        y += MARGIN / 2;
+        layout.notes.push({ text: step.text, x: center - width / 2, y, width, height: NOTE_HEIGHT });
+        y += NOTE_HEIGHT;
+        cover(center - width / 2, center + width / 2);
+      } else {
+        const top = (y += MARGIN / 2);
+        y += LOOP_HEADER_HEIGHT - MESSAGE_HEIGHT / 2;
+        const index = layout.loops.push({ label: step.label, x: 0, y: top, width: 0, height: 0 }) - 1;
+        const [from, to] = place(step.steps);
+        y += LOOP_FOOTER_HEIGHT;
+        // Wide enough for the header tab, and around the loops nested in it.
+        const loopX = from - LOOP_PADDING;
+        const loopRight = Math.max(to + LOOP_PADDING, loopX + labelWidth(step.label) + LOOP_TAB_WIDTH + MARGIN);
+        layout.loops[index] = { ...layout.loops[index], x: loopX, width: loopRight - loopX, height: y - top };
+        cover(loopX, loopRight);
+      }
+    }
+    return extent;
+  };
+  place(diagram.steps);
+
+  layout.lifelines.bottom = y + MARGIN;
+  const lastParticipant = participants[participants.length - 1];
+  layout.width = Math.max(right, lastParticipant.x + lastParticipant.width / 2) + MARGIN;
+  layout.height = layout.lifelines.bottom + MARGIN;
+  return layout;
+}
+
+/** A step of the text version: participants are named, and messages numbered as in the drawing. */
+export type TextStep =
+  | { kind: 'message'; number: number; route: string; reply: boolean; label: string }
+  | { kind: 'note'; participants: string; text: string }
+  | { kind: 'loop'; label: string; steps: TextStep[] };
+
+export function sequenceDiagramText(diagram: SequenceDiagram): TextStep[] {
+  const labels = new Map(diagram.participants.map(({ id, label }) => [id, label]));
+  let number = 0;
+  const describe = (steps: SequenceStep[]): TextStep[] =>
+    steps.map((step) => {
+      if (step.kind === 'message') {
+        number += 1;
+        const route =
+          step.from === step.to ? labels.get(step.from)! : `${labels.get(step.from)} → ${labels.get(step.to)}`;
+        return { kind: 'message', number, route, reply: step.reply ?? false, label: step.label };
+      }
+      if (step.kind === 'note') {
+        return { kind: 'note', participants: step.over.map((id) => labels.get(id)).join(', '), text: step.text };
+      }
+      return { kind: 'loop', label: step.label, steps: describe(step.steps) };
+    });
+  return describe(diagram.steps);
+}
+
+/** The text version as a Markdown list, with the steps of loops nested. */
+export function sequenceDiagramMarkdown(diagram: SequenceDiagram): string {
+  const lines = (steps: TextStep[], indent: string): string[] =>
+    steps.flatMap((step) => {
+      switch (step.kind) {
+        case 'message':
+          return [`${indent}${step.number}. ${step.route}${step.reply ? ' (reply)' : ''}: ${step.label}`];
+        case 'note':
+          return [`${indent}- Note (${step.participants}): ${step.text}`];
+        case 'loop':
+          return [`${indent}- Loop, ${step.label}:`, ...lines(step.steps, `${indent}  `)];
+      }
+    });
+  return lines(sequenceDiagramText(diagram), '').join('\n');
+}
@@ -0,0 +1,90 @@
+import type { StreamContentDelta, StreamStep, StreamUsage } from '../data/streamFixtures';
+
+export type AccumulatedToolCall = {
+  call_id: string;
+  name: string | null;
+  /** The argument fragments received so far, concatenated. */
+  arguments: string;
+  /** The parsed arguments, once the fragments form valid JSON. */
+  parsed: Record<string, unknown> | null;
+};
+
+/** What the final `ChatResponse` holds after the given steps: `reasoning()`, `text()`, `tools()` and `usage`. */
+export type AccumulatedResponse = {
+  reasoning: string;
+  text: string;
+  toolCalls: AccumulatedToolCall[];
+  usage: StreamUsage | null;
+};
+
+function parseArguments(json: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+function applyDelta(response: AccumulatedResponse, delta: StreamContentDelta): AccumulatedResponse {
+  switch (delta.type) {
+    case 'reasoning':
+      return { ...response, reasoning: response.reasoning + delta.thinking_text_delta };
+    case 'text':
+      return { ...response, text: response.text + delta.text_delta };
+    case 'tool_call': {
+      // Deltas of one call share its `call_id`; only the first one carries the name.
+      const { call_id: callId, name, arguments_delta: argumentsDelta } = delta.tool_call_delta;
+      const current = response.toolCalls.find((call) => call.call_id === callId);
+      const args = (current?.arguments ?? '') + argumentsDelta;
+      const call = { call_id: callId, name: current?.name ?? name, arguments: args, parsed: parseArguments(args) };
+      return {
+        ...response,
+        toolCalls: current
+          ? response.toolCalls.map((candidate) => (candidate === current ? call : candidate))
+          : [...response.toolCalls, call],
+      };
+    }
+  }
+}
+
+/** Consolidates the steps the way the streaming API builds the final response. */
+export function accumulateStream(steps: StreamStep[]): AccumulatedResponse {
+  return steps.reduce<AccumulatedResponse>(
+    (response, step) =>
+      step.kind === 'final' ? { ...response, usage: step.usage } : step.content_deltas.reduce(applyDelta, response),
+    { reasoning: '', text: '', toolCalls: [], usage: null }
+  );
+}
+
+// The content items of choice 0 of the final `ChatResponse`, in the order `AccumulatedResponse` lists them.
+function contentItems({ reasoning, text, toolCalls }: AccumulatedResponse): Record<string, unknown>[] {
+  const items = [
+    ...(reasoning ? [{ type: 'reasoning', thinking_text: reasoning }] : []),
+    ...(text ? [{ type: 'text', text }] : []),
+    ...toolCalls.map(({ call_id: callId, name, arguments: args, parsed }) => ({
+      type: 'tool_call',
+      tool_call: { call_id: callId, name, arguments: parsed ?? args },
+    })),
+  ];
+  return items.map((item, index) => ({ index, ...item }));
+}
+
+/**
+ * A step of the stream as the `(chunk, final_response)` pair the loop over `response.stream_generator` receives, as
+ * JSON. The final pair carries the response accumulated from all the steps.
+ */
+export function rawStep(step: StreamStep, steps: StreamStep[]): { chunk: string; finalResponse: string } {
+  if (step.kind === 'final') {
+    const response = accumulateStream(steps);
+    const chatResponse = {
+      choices: [{ index: 0, contents: contentItems(response) }],
+      usage: response.usage,
+    };
+    return { chunk: 'None', finalResponse: JSON.stringify({ chat_response: chatResponse }, null, 2) };
+  }
+  const chunk = {
+    event: 'token_stream',
+    data: { choice_deltas: [{ index: 0, content_deltas: step.content_deltas }] },
+  };
+  return { chunk: JSON.stringify(chunk, null, 2), finalResponse: 'None' };
+}
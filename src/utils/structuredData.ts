@@ -0,0 +1,92 @@
+import type { Product } from '../data/products';
+
+// schema.org JSON-LD for the doc pages (https://schema.org/TechArticle, https://schema.org/BreadcrumbList) and their
+// code samples (https://schema.org/SoftwareSourceCode).
+
+export type JsonLd = Record<string, unknown>;
+
+export type Crumb = {
+  name: string;
+  /** Absolute URL; the last crumb, the page itself, may omit it. */
+  url?: string;
+};
+
+type TechArticleInput = {
+  title: string;
+  description?: string;
+  keywords?: string[];
+  url: string;
+  product: Product;
+  version: string;
+  locale: string;
+  /** Last update, as a Unix timestamp in milliseconds. */
+  lastUpdatedAt?: number;
+  deprecated: boolean;
+  siteTitle: string;
+  siteUrl: string;
+};
+
+/** Absolute URL of a site path, without the trailing slash of folder index docs (`trailingSlash: false`). */
+export function absoluteUrl(siteUrl: string, pathname: string): string {
+  return `${siteUrl.replace(/\/$/, '')}${pathname.replace(/(.)\/$/, '$1')}`;
+}
+
+function softwareApplication({ name, packageName }: Product): JsonLd {
+  return {
+    '@type': 'SoftwareApplication',
+    name,
+    alternateName: packageName,
+    applicationCategory: 'DeveloperApplication',
+  };
+}
+
+export function techArticle(input: TechArticleInput): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'TechArticle',
+    headline: input.title,
+    description: input.description,
+    keywords: input.keywords?.join(', '),
+    url: input.url,
+    inLanguage: input.locale,
+    version: input.version,
+    dateModified: input.lastUpdatedAt ? new Date(input.lastUpdatedAt).toISOString() : undefined,
+    creativeWorkStatus: input.deprecated ? 'Deprecated' : undefined,
+    about: softwareApplication(input.product),
+    isPartOf: { '@type': 'WebSite', name: input.siteTitle, url: input.siteUrl },
+  };
+}
+
+export function breadcrumbList(crumbs: Crumb[]): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: crumbs.map(({ name, url }, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name,
+      item: url,
+    })),
+  };
+}
+
+type SourceCodeInput = {
+  code: string;
+  language: string;
+  title?: string;
+  pageUrl: string;
+  product: Product;
+};
+
+export function softwareSourceCode({ code, language, title, pageUrl, product }: SourceCodeInput): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'SoftwareSourceCode',
+    name: title,
+    text: code,
+    programmingLanguage: language,
+    codeSampleType: 'code snippet',
+    url: pageUrl,
+    targetProduct: softwareApplication(product),
+  };
+}
@@ -0,0 +1,125 @@
+import type { PyodideInterface } from 'pyodide';
+import type { PyodideRuntimeManifest } from '../../plugins/pyodide-runtime/types';
+import { PROVIDER_APIS } from '../data/providers';
+
+export type TestModeRunResult = {
+  stdout: string;
+  stderr: string;
+  /** `response.chat_response` of the snippet, as JSON, when it defines a `response`. */
+  response?: string;
+  usage?: string;
+  usageCharge?: string;
+  error?: string;
+};
+
+// Fence meta flag marking a Python snippet as runnable in the browser.
+export const RUNNABLE_META_FLAG = 'runnable';
+
+const API_KEY_ENV_VARS = Object.values(PROVIDER_APIS).flatMap(({ envVars }) => envVars.map(({ name }) => name));
+
+// Runs before every snippet: samples read their API keys from the environment, and test mode is forced on for every
+// `AIModelCallConfig`, so no provider is ever called.
+const PRELUDE = `
+import os
+
+for _name in ${JSON.stringify(API_KEY_ENV_VARS)}:
+    os.environ.setdefault(_name, "test-mode")
+
+from dhenara.ai.types import AIModelCallConfig
+
+AIModelCallConfig.model_fields["test_mode"].default = True
+AIModelCallConfig.model_rebuild(force=True)
+`;
+
+const EPILOGUE = `
+import json as _json
+
+def _dump(_model):
+    return None if _model is None else _json.dumps(_model.model_dump(mode="json"), indent=2)
+
+_chat = getattr(globals().get("response"), "chat_response", None)
+_json.dumps({
+    "response": _dump(_chat),
+    "usage": _dump(getattr(_chat, "usage", None)),
+    "usageCharge": _dump(getattr(_chat, "usage_charge", None)),
+})
+`;
+
+declare global {
+  interface Window {
+    loadPyodide?: typeof import('pyodide').loadPyodide;
+  }
+}
+
+let runtimePromise: Promise<PyodideInterface> | null = null;
+
+function loadScript(src: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Failed to load ${src}`));
+    document.head.appendChild(script);
+  });
+}
+
+async function loadRuntimeManifest(): Promise<PyodideRuntimeManifest> {
+  const module = await import('@generated/dhenara-pyodide-runtime/default/runtime.json');
+  return module.default as PyodideRuntimeManifest;
+}
+
+export async function isTestModeRuntimeAvailable(): Promise<boolean> {
+  return (await loadRuntimeManifest()).available;
+}
+
+/** Lazily loads the bundled Pyodide runtime and the dhenara-ai wheels; nothing is fetched before the first run. */
+function loadRuntime(): Promise<PyodideInterface> {
+  if (!runtimePromise) {
+    runtimePromise = (async () => {
+      const manifest = await loadRuntimeManifest();
+      if (!manifest.available) {
+        throw new Error('The test-mode runtime is not bundled with this build of the docs.');
+      }
+      // Served from the static directory rather than bundled: the UMD build defines a global `loadPyodide`.
+      await loadScript(`${manifest.indexURL}pyodide.js`);
+      const pyodide = await window.loadPyodide!({ indexURL: manifest.indexURL });
+      await pyodide.loadPackage([...manifest.packages, ...manifest.wheels]);
+      return pyodide;
+    })();
+    runtimePromise.catch(() => {
+      runtimePromise = null;
+    });
+  }
+  return runtimePromise;
+}
+
+/** Runs a snippet with dhenara-ai in test mode, in a fresh namespace. */
+export async function runInTestMode(code: string): Promise<TestModeRunResult> {
+  const pyodide = await loadRuntime();
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  pyodide.setStdout({ batched: (line) => stdout.push(line) });
+  pyodide.setStderr({ batched: (line) => stderr.push(line) });
+
+  const namespace = pyodide.globals.get('dict')();
+  try {
+    await pyodide.runPythonAsync(PRELUDE, { globals: namespace });
+    await pyodide.runPythonAsync(code, { globals: namespace });
+    const outputs = JSON.parse(await pyodide.runPythonAsync(EPILOGUE, { globals: namespace })) as Record<
+      'response' | 'usage' | 'usageCharge',
+      string | null
+    >;
+    return {
+      stdout: stdout.join('\n'),
+      stderr: stderr.join('\n'),
+      response: outputs.response ?? undefined,
+      usage: outputs.usage ?? undefined,
+      usageCharge: outputs.usageCharge ?? undefined,
+    };
+  } catch (error) {
+    // Python exceptions surface as `PythonError`, whose message is the formatted traceback.
+    return { stdout: stdout.join('\n'), stderr: stderr.join('\n'), error: (error as Error).message };
+  } finally {
+    namespace.destroy();
+  }
+}
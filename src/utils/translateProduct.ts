@@ -0,0 +1,36 @@
+import { translate } from '@docusaurus/Translate';
+import type { Product, ProductFeature, ProductLink } from '../data/products';
+
+// Localized strings of the product registry, for the homepage. The registry is shared with the build plugins, so its
+// strings are translated here by stable ids (`homepage.product.<product id>.…`) rather than in `products.ts`. These
+// ids cannot be extracted by `write-translations`: add them to `i18n/<locale>/code.json` by hand.
+
+/** `productLabel()`, translated. */
+export function translatedProductLabel({ name, status }: Product): string {
+  return status === 'deprecated'
+    ? translate({ id: 'product.label.deprecated', message: '{name} (Deprecated)' }, { name })
+    : name;
+}
+
+export function translatedSummary(product: Product): string {
+  return translate({ id: `homepage.product.${product.id}.summary`, message: product.summary });
+}
+
+export function translatedFeature(product: Product, feature: ProductFeature): ProductFeature {
+  const id = `homepage.product.${product.id}.feature.${feature.icon}`;
+  return {
+    ...feature,
+    title: translate({ id: `${id}.title`, message: feature.title }),
+    description: translate({ id: `${id}.description`, message: feature.description }),
+  };
+}
+
+/** A highlighted link, keyed by the last segment of its route (`advanced-recipes`). */
+export function translatedHighlight(product: Product, link: ProductLink): ProductLink {
+  const id = `homepage.product.${product.id}.highlight.${link.to.split('/').pop()}`;
+  return {
+    ...link,
+    title: translate({ id: `${id}.title`, message: link.title }),
+    description: translate({ id: `${id}.description`, message: link.description }),
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Release badges of a Dhenara AI doc page, declared in its frontmatter; headings use `<VersionBadge>` instead:
+ *
+ * ```yaml
+ * added_in: '1.0' # quoted: YAML reads 1.0 as the number 1
+ * changed_in: '1.1'
+ * ```
+ *
+ * Both name a release of `src/data/releases.ts`, whose notes the badge links to.
+ */
+export type VersionFrontMatter = {
+  added_in?: string;
+  changed_in?: string;
+};
+
+export type VersionBadges = {
+  addedIn?: string;
+  changedIn?: string;
+};
+
+/** Returns the badges of a page, or `null` when its frontmatter declares none. */
+export function getVersionBadges(frontMatter: VersionFrontMatter): VersionBadges | null {
+  const { added_in: addedIn, changed_in: changedIn } = frontMatter;
+  if (!addedIn && !changedIn) {
+    return null;
+  }
+  return { addedIn, changedIn };
+}
@@ -0,0 +1,79 @@
+// A zip reader for the browser (https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT): the central directory at
+// the end of the archive lists the entries and where their local header is. Only stored and deflated entries are
+// supported, which is what zip tools write by default; deflated data is inflated with the `DecompressionStream` API.
+
+export type ZipTextEntry = {
+  path: string;
+  lastModified: number;
+  content: string;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// MS-DOS date and time fields, in local time.
+function dosDateTime(date: number, time: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+async function inflateRaw(data: Uint8Array): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+}
+
+/** Reads the entries of a zip archive whose path matches `include`, as UTF-8 text. */
+export async function readZipEntries(zip: File, include: (path: string) => boolean): Promise<ZipTextEntry[]> {
+  const buffer = await zip.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record is the last 22 bytes, unless the archive has a comment.
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) {
+    end -= 1;
+  }
+  if (end < 0) {
+    throw new Error(`${zip.name} is not a zip archive.`);
+  }
+
+  const entries: ZipTextEntry[] = [];
+  let offset = view.getUint32(end + 16, true);
+  for (let remaining = view.getUint16(end + 10, true); remaining > 0; remaining--) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`${zip.name}: corrupt central directory.`);
+    }
+    const method = view.getUint16(offset + 10, true);
+    const lastModified = dosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true));
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !include(path)) {
+      continue;
+    }
+    if (method !== STORED && method !== DEFLATED) {
+      throw new Error(`${zip.name}: ${path} uses an unsupported compression method (${method}).`);
+    }
+    // The local header repeats the name, and may have an extra field of its own.
+    const dataStart =
+      localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    const content = decoder.decode(method === DEFLATED ? await inflateRaw(data) : data);
+    entries.push({ path, lastModified, content });
+  }
+  return entries;
+}